@@ -1,7 +1,10 @@
 export const fileExtensions = {
-  image: ['jpg', 'jpeg', 'png', 'gif', 'avif'] as const,
+  image: ['jpg', 'jpeg', 'png', 'gif', 'avif', 'webp'] as const,
   video: ['mp4', 'mov', 'webm'] as const,
+  // Inputs ImageMagick can read on the convert page.
+  convert: ['jpg', 'jpeg', 'png', 'gif', 'avif', 'webp', 'bmp', 'jp2', 'tif', 'tiff'] as const,
 };
 export type FileTypes = keyof typeof fileExtensions;
 export type ImageExtensions = (typeof fileExtensions.image)[number];
-export type VideoExtensions = (typeof fileExtensions.video)[number];
\ No newline at end of file
+export type VideoExtensions = (typeof fileExtensions.video)[number];
+export type ConvertExtensions = (typeof fileExtensions.convert)[number];
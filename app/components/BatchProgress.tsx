@@ -0,0 +1,31 @@
+import { Progress } from "~/components/ui/progress";
+
+interface BatchItem {
+  status: 'pending' | 'processing' | 'success' | 'error';
+  progressPercent?: number;
+}
+
+// Overall progress of a batch, counting finished items as 100%.
+export function BatchProgress({ items }: { items: BatchItem[] }) {
+  if (items.length === 0) return null;
+  const done = items.filter(item => item.status === 'success').length;
+  const failed = items.filter(item => item.status === 'error').length;
+  const running = items.filter(item => item.status === 'processing').length;
+  const total = items.reduce((sum, item) =>
+    sum + (item.status === 'success' || item.status === 'error' ? 100 : item.status === 'processing' ? item.progressPercent ?? 0 : 0), 0);
+  const percent = Math.round(total / items.length);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">
+          {done + failed} / {items.length} processed
+          {running > 0 && <span className="text-muted-foreground"> ({running} running)</span>}
+          {failed > 0 && <span className="text-destructive"> ({failed} failed)</span>}
+        </span>
+        <span className="text-muted-foreground">{percent}%</span>
+      </div>
+      <Progress value={percent} className="w-full h-2" />
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { FormItem } from "~/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  aspectPresets,
+  aspectRatioOf,
+  clampCrop,
+  fitAspect,
+  toPixelCrop,
+  toRelativeCrop,
+  type AspectPreset,
+  type CropRect,
+  type RelativeCrop,
+} from "~/lib/crop";
+
+interface CropEditorProps {
+  // Image the rectangle is drawn on; the same rectangle is used for the whole batch.
+  image: Blob;
+  // Pixel size the rectangle refers to, when `image` is a downscaled preview.
+  imageSize?: { width: number, height: number };
+  // Relative to the image size, so the selection carries over to files of other sizes.
+  value: RelativeCrop | null;
+  onChange: (crop: RelativeCrop) => void;
+  disabled?: boolean;
+}
+
+type Handle = 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface Drag {
+  handle: Handle | 'move';
+  startX: number;
+  startY: number;
+  start: CropRect;
+}
+
+const cornerHandles: Handle[] = ['nw', 'ne', 'sw', 'se'];
+const edgeHandles: Handle[] = ['n', 's', 'e', 'w'];
+
+const handlePosition: Record<Handle, React.CSSProperties> = {
+  nw: { left: 0, top: 0, cursor: 'nwse-resize' },
+  ne: { left: '100%', top: 0, cursor: 'nesw-resize' },
+  sw: { left: 0, top: '100%', cursor: 'nesw-resize' },
+  se: { left: '100%', top: '100%', cursor: 'nwse-resize' },
+  n: { left: '50%', top: 0, cursor: 'ns-resize' },
+  s: { left: '50%', top: '100%', cursor: 'ns-resize' },
+  e: { left: '100%', top: '50%', cursor: 'ew-resize' },
+  w: { left: 0, top: '50%', cursor: 'ew-resize' },
+};
+
+// Free-form resize: move the dragged edges, keeping at least one pixel.
+const resizeFree = (start: CropRect, handle: Handle, dx: number, dy: number, width: number, height: number): CropRect => {
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+  if (handle.includes('w')) left = Math.min(right - 1, Math.max(0, left + dx));
+  if (handle.includes('e')) right = Math.max(left + 1, Math.min(width, right + dx));
+  if (handle.includes('n')) top = Math.min(bottom - 1, Math.max(0, top + dy));
+  if (handle.includes('s')) bottom = Math.max(top + 1, Math.min(height, bottom + dy));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Locked resize from a corner: the opposite corner stays put.
+const resizeLocked = (
+  start: CropRect, handle: Handle, px: number, py: number, ratio: number, width: number, height: number,
+): CropRect => {
+  const ax = handle.includes('w') ? start.x + start.width : start.x;
+  const ay = handle.includes('n') ? start.y + start.height : start.y;
+  const towardsRight = handle.includes('e');
+  const towardsBottom = handle.includes('s');
+  const availableWidth = towardsRight ? width - ax : ax;
+  const availableHeight = towardsBottom ? height - ay : ay;
+  let w = Math.max(Math.abs(px - ax), Math.abs(py - ay) * ratio, 1);
+  w = Math.min(w, availableWidth, availableHeight * ratio);
+  const h = w / ratio;
+  return {
+    x: towardsRight ? ax : ax - w,
+    y: towardsBottom ? ay : ay - h,
+    width: w,
+    height: h,
+  };
+};
+
+export function CropEditor({ image, imageSize, value, onChange, disabled = false }: CropEditorProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState<{ width: number, height: number } | null>(null);
+  const natural = loaded && (imageSize ?? loaded);
+  // The rectangle in pixels of `natural`, which is what the handles and fields edit.
+  const rect = value && natural ? toPixelCrop(value, natural.width, natural.height) : null;
+  const [scale, setScale] = useState(1);
+  const [preset, setPreset] = useState<AspectPreset>('free');
+  const [custom, setCustom] = useState({ width: 3, height: 2 });
+  const imgRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const ratio = aspectRatioOf(preset, custom);
+
+  useEffect(() => {
+    const created = URL.createObjectURL(image);
+    setUrl(created);
+    setLoaded(null);
+    return () => URL.revokeObjectURL(created);
+  }, [image]);
+
+  // Track the displayed size so pointer movement can be converted to source pixels.
+  useEffect(() => {
+    const img = imgRef.current;
+    if (!img || !natural) return;
+    const observer = new ResizeObserver(() => setScale(img.clientWidth / natural.width || 1));
+    observer.observe(img);
+    return () => observer.disconnect();
+  }, [natural?.width, natural?.height]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    const displayed = { width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight };
+    setLoaded(displayed);
+    const size = imageSize ?? displayed;
+    const kept = value ? clampCrop(toPixelCrop(value, size.width, size.height), size.width, size.height) : null;
+    const next = kept ?? (ratio ? fitAspect(ratio, size.width, size.height) : { x: 0, y: 0, ...size });
+    onChange(toRelativeCrop(next, size.width, size.height));
+  };
+
+  const emit = (next: CropRect) => {
+    if (natural) onChange(toRelativeCrop(next, natural.width, natural.height));
+  };
+
+  const applyPreset = (next: AspectPreset, nextCustom = custom) => {
+    setPreset(next);
+    setCustom(nextCustom);
+    const nextRatio = aspectRatioOf(next, nextCustom);
+    if (natural && nextRatio) {
+      emit(fitAspect(nextRatio, natural.width, natural.height, rect ?? undefined));
+    }
+  };
+
+  const handlePointerDown = (handle: Handle | 'move') => (event: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || !rect) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { handle, startX: event.clientX, startY: event.clientY, start: rect };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !natural) return;
+    const dx = (event.clientX - drag.startX) / scale;
+    const dy = (event.clientY - drag.startY) / scale;
+    const { start } = drag;
+    let next: CropRect;
+    if (drag.handle === 'move') {
+      next = {
+        ...start,
+        x: Math.min(Math.max(0, start.x + dx), natural.width - start.width),
+        y: Math.min(Math.max(0, start.y + dy), natural.height - start.height),
+      };
+    } else if (ratio) {
+      const rect = imgRef.current!.getBoundingClientRect();
+      next = resizeLocked(
+        start, drag.handle,
+        (event.clientX - rect.left) / scale, (event.clientY - rect.top) / scale,
+        ratio, natural.width, natural.height,
+      );
+    } else {
+      next = resizeFree(start, drag.handle, dx, dy, natural.width, natural.height);
+    }
+    emit(clampCrop(next, natural.width, natural.height) ?? start);
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const setField = (field: keyof CropRect, raw: string) => {
+    if (!natural || !rect) return;
+    const n = parseInt(raw, 10);
+    if (!Number.isFinite(n)) return;
+    const next = { ...rect, [field]: n };
+    if (ratio && field === 'width') next.height = Math.round(n / ratio);
+    if (ratio && field === 'height') next.width = Math.round(n * ratio);
+    const clamped = clampCrop(next, natural.width, natural.height);
+    if (clamped) emit(clamped);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-6 gap-2 items-end">
+        <FormItem className="col-span-2">
+          <Label htmlFor="cropAspect">Aspect Ratio</Label>
+          <Select value={preset} onValueChange={(v) => applyPreset(v as AspectPreset)} disabled={disabled}>
+            <SelectTrigger id="cropAspect" className="w-full">
+              <SelectValue placeholder="Select aspect ratio" />
+            </SelectTrigger>
+            <SelectContent>
+              {aspectPresets.map(p => (
+                <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </FormItem>
+        {preset === 'custom' && (
+          <FormItem className="col-span-2">
+            <Label>Custom Ratio (W:H)</Label>
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                min="1"
+                value={custom.width}
+                onChange={(e) => applyPreset('custom', { ...custom, width: parseInt(e.target.value, 10) || 0 })}
+                disabled={disabled}
+              />
+              <span>:</span>
+              <Input
+                type="number"
+                min="1"
+                value={custom.height}
+                onChange={(e) => applyPreset('custom', { ...custom, height: parseInt(e.target.value, 10) || 0 })}
+                disabled={disabled}
+              />
+            </div>
+          </FormItem>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {(['x', 'y', 'width', 'height'] as const).map(field => (
+          <FormItem key={field}>
+            <Label htmlFor={`crop-${field}`} className="text-xs">
+              {field === 'width' ? 'W' : field === 'height' ? 'H' : field.toUpperCase()} (px)
+            </Label>
+            <Input
+              type="number"
+              id={`crop-${field}`}
+              min={field === 'width' || field === 'height' ? 1 : 0}
+              value={rect ? Math.round(rect[field]) : ''}
+              onChange={(e) => setField(field, e.target.value)}
+              disabled={disabled || !rect}
+            />
+          </FormItem>
+        ))}
+      </div>
+
+      {url && (
+        <div className="flex justify-center">
+          {/* Captured pointer events bubble up here from the rectangle and its handles. */}
+          <div
+            className="relative inline-block overflow-hidden select-none touch-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <img
+              ref={imgRef}
+              src={url}
+              alt="Crop preview"
+              draggable={false}
+              onLoad={handleLoad}
+              className="block max-w-full"
+              style={{ maxHeight: 400 }}
+            />
+            {rect && (
+              <div
+                className="absolute border border-white cursor-move"
+                style={{
+                  left: rect.x * scale,
+                  top: rect.y * scale,
+                  width: rect.width * scale,
+                  height: rect.height * scale,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                }}
+                onPointerDown={handlePointerDown('move')}
+              >
+                {(ratio ? cornerHandles : [...cornerHandles, ...edgeHandles]).map(handle => (
+                  <div
+                    key={handle}
+                    className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-sm border border-black/50 bg-white"
+                    style={handlePosition[handle]}
+                    onPointerDown={handlePointerDown(handle)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
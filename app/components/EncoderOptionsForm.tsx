@@ -0,0 +1,180 @@
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { FormItem } from "~/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  chromaSubsamplings,
+  gifDithers,
+  tiffCompressions,
+  type ChromaSubsampling,
+  type EncoderOptions,
+  type GifDither,
+  type TiffCompression,
+} from "~/lib/encoderoptions";
+
+interface EncoderOptionsFormProps {
+  format: string;
+  value: EncoderOptions;
+  onChange: (options: EncoderOptions) => void;
+  disabled?: boolean;
+}
+
+// Encoder settings for the selected target format; formats without options show a note.
+export function EncoderOptionsForm({ format, value, onChange, disabled = false }: EncoderOptionsFormProps) {
+  const update = <K extends keyof EncoderOptions>(key: K, changes: Partial<EncoderOptions[K]>) =>
+    onChange({ ...value, [key]: { ...value[key], ...changes } });
+
+  const range = (id: string, label: string, current: number, min: number, max: number, set: (n: number) => void) => (
+    <FormItem>
+      <Label htmlFor={id}>{label}: {current}</Label>
+      <Input
+        type="range"
+        id={id}
+        value={current}
+        onChange={(e) => set(parseInt(e.target.value, 10))}
+        min={min}
+        max={max}
+        disabled={disabled}
+        className="w-full px-0"
+      />
+    </FormItem>
+  );
+
+  switch (format) {
+    case 'jpg':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+          {range('jpegQuality', 'Quality', value.jpg.quality, 1, 100, quality => update('jpg', { quality }))}
+          <FormItem>
+            <Label htmlFor="jpegChroma">Chroma Subsampling</Label>
+            <Select
+              value={value.jpg.chroma}
+              onValueChange={(chroma) => update('jpg', { chroma: chroma as ChromaSubsampling })}
+              disabled={disabled}
+            >
+              <SelectTrigger id="jpegChroma" className="w-full">
+                <SelectValue placeholder="Select subsampling" />
+              </SelectTrigger>
+              <SelectContent>
+                {chromaSubsamplings.map(c => (
+                  <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormItem>
+          <label className="flex items-center gap-1 text-sm pb-2">
+            <input
+              type="checkbox"
+              checked={value.jpg.progressive}
+              onChange={(e) => update('jpg', { progressive: e.target.checked })}
+              disabled={disabled}
+            />
+            Progressive
+          </label>
+        </div>
+      );
+    case 'webp':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+          <FormItem>
+            <Label htmlFor="webpMode">Compression</Label>
+            <Select
+              value={value.webp.lossless ? 'lossless' : 'lossy'}
+              onValueChange={(mode) => update('webp', { lossless: mode === 'lossless' })}
+              disabled={disabled}
+            >
+              <SelectTrigger id="webpMode" className="w-full">
+                <SelectValue placeholder="Select compression" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="lossy">Lossy</SelectItem>
+                <SelectItem value="lossless">Lossless</SelectItem>
+              </SelectContent>
+            </Select>
+          </FormItem>
+          {!value.webp.lossless && range('webpQuality', 'Quality', value.webp.quality, 1, 100, quality => update('webp', { quality }))}
+        </div>
+      );
+    case 'avif':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {range('avifQuality', 'Quality', value.avif.quality, 1, 100, quality => update('avif', { quality }))}
+          {range('avifSpeed', 'Speed (0 = smallest, 9 = fastest)', value.avif.speed, 0, 9, speed => update('avif', { speed }))}
+        </div>
+      );
+    case 'png':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+          {range('pngCompression', 'Compression Level', value.png.compressionLevel, 0, 9, compressionLevel => update('png', { compressionLevel }))}
+          <FormItem>
+            <Label htmlFor="pngDepth">Bit Depth</Label>
+            <Select
+              value={String(value.png.bitDepth)}
+              onValueChange={(depth) => update('png', { bitDepth: depth === '16' ? 16 : 8 })}
+              disabled={disabled}
+            >
+              <SelectTrigger id="pngDepth" className="w-full">
+                <SelectValue placeholder="Select bit depth" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="8">8-bit</SelectItem>
+                <SelectItem value="16">16-bit</SelectItem>
+              </SelectContent>
+            </Select>
+          </FormItem>
+        </div>
+      );
+    case 'tiff':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+          <FormItem>
+            <Label htmlFor="tiffCompression">Compression</Label>
+            <Select
+              value={value.tiff.compression}
+              onValueChange={(compression) => update('tiff', { compression: compression as TiffCompression })}
+              disabled={disabled}
+            >
+              <SelectTrigger id="tiffCompression" className="w-full">
+                <SelectValue placeholder="Select compression" />
+              </SelectTrigger>
+              <SelectContent>
+                {tiffCompressions.map(c => (
+                  <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormItem>
+          {value.tiff.compression === 'jpeg' && range('tiffQuality', 'Quality', value.tiff.quality, 1, 100, quality => update('tiff', { quality }))}
+        </div>
+      );
+    case 'gif':
+      return (
+        <FormItem className="max-w-xs">
+          <Label htmlFor="gifDither">Dithering</Label>
+          <Select
+            value={value.gif.dither}
+            onValueChange={(dither) => update('gif', { dither: dither as GifDither })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="gifDither" className="w-full">
+              <SelectValue placeholder="Select dithering" />
+            </SelectTrigger>
+            <SelectContent>
+              {gifDithers.map(d => (
+                <SelectItem key={d.value} value={d.value}>{d.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground mt-1">Used when the image has more than 256 colors.</p>
+        </FormItem>
+      );
+    default:
+      return <p className="text-sm text-muted-foreground">{format.toUpperCase()} has no encoder options.</p>;
+  }
+}
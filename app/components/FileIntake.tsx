@@ -0,0 +1,157 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FolderOpen, Upload } from "lucide-react";
+
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import { cn } from "~/lib/utils";
+import { collectDroppedFiles, filterFiles, nameClipboardFile } from "~/lib/fileintake";
+
+interface FileIntakeProps {
+  id: string;
+  label: string;
+  // Allowed extensions, lowercase without the dot.
+  extensions: readonly string[];
+  accept: string;
+  multiple?: boolean;
+  maxFiles?: number;
+  disabled?: boolean;
+  // Called with the accepted files and messages for the rejected ones.
+  onFiles: (files: File[], errors: string[]) => void;
+  children?: React.ReactNode;
+}
+
+// File picker that also takes drag-and-drop, Ctrl+V pasted images and whole folders.
+export function FileIntake({
+  id,
+  label,
+  extensions,
+  accept,
+  multiple = false,
+  maxFiles,
+  disabled = false,
+  onFiles,
+  children,
+}: FileIntakeProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const onFilesRef = useRef(onFiles);
+  onFilesRef.current = onFiles;
+
+  const limit = multiple ? maxFiles : 1;
+
+  const deliver = (files: File[]) => {
+    if (files.length === 0) return;
+    const { accepted, errors } = filterFiles(files, extensions, limit);
+    onFilesRef.current(accepted, errors);
+  };
+
+  useEffect(() => {
+    // React does not know the non-standard webkitdirectory attribute.
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  useEffect(() => {
+    if (disabled) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData?.files ?? []);
+      if (files.length === 0) return;
+      event.preventDefault();
+      deliver(files.map(nameClipboardFile));
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [disabled, extensions, limit]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    deliver(Array.from(event.target.files ?? []));
+    // Reset the input, otherwise selecting the same file again does not fire onChange.
+    event.target.value = '';
+  };
+
+  const handleFolderChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    // Skip hidden files such as .DS_Store.
+    deliver(Array.from(event.target.files ?? []).filter(file => !file.name.startsWith('.')));
+    event.target.value = '';
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (disabled) {
+      event.dataTransfer.dropEffect = 'none';
+      return;
+    }
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+    collectDroppedFiles(event.dataTransfer)
+      .then(deliver)
+      .catch(err => onFilesRef.current([], [`Failed to read dropped files: ${err instanceof Error ? err.message : String(err)}`]));
+  };
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={cn(
+          "flex flex-col items-center gap-3 rounded-md border-2 border-dashed p-6 text-center transition-colors",
+          isDragging ? "border-primary bg-primary/5" : "border-input",
+          disabled && "opacity-50",
+        )}
+      >
+        <Upload className="h-6 w-6 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          Drag and drop {multiple ? 'files or folders' : 'a file'} here, or paste with Ctrl+V.
+          <br />
+          Supported types: {extensions.join(', ')}
+        </p>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" disabled={disabled} onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4" />
+            Choose {multiple ? 'Files' : 'File'}
+          </Button>
+          {multiple && (
+            <Button type="button" variant="outline" size="sm" disabled={disabled} onClick={() => folderInputRef.current?.click()}>
+              <FolderOpen className="h-4 w-4" />
+              Choose Folder
+            </Button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          id={id}
+          accept={accept}
+          multiple={multiple}
+          disabled={disabled}
+          onChange={handleInputChange}
+          className="hidden"
+        />
+        {multiple && (
+          <input
+            ref={folderInputRef}
+            type="file"
+            disabled={disabled}
+            onChange={handleFolderChange}
+            className="hidden"
+          />
+        )}
+      </div>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  buildFileName,
+  fileNameTokens,
+  type FileNameToken,
+  type FileNameValues,
+} from "~/lib/filenametemplate";
+
+const storageKey = (tool: string) => `filenameTemplate:${tool}`;
+
+// Template for one tool, remembered across visits.
+export const useFileNameTemplate = (tool: string, defaultTemplate: string) => {
+  const [template, setTemplate] = useState(defaultTemplate);
+
+  // Read after mount; the page is prerendered without localStorage.
+  useEffect(() => {
+    const saved = localStorage.getItem(storageKey(tool));
+    if (saved !== null) setTemplate(saved);
+  }, [tool]);
+
+  const update = (next: string) => {
+    setTemplate(next);
+    try {
+      if (next === defaultTemplate) {
+        localStorage.removeItem(storageKey(tool));
+      } else {
+        localStorage.setItem(storageKey(tool), next);
+      }
+    } catch {
+      // Storage can be full or disabled; the template still applies to this visit.
+    }
+  };
+
+  return [template, update] as const;
+};
+
+interface FileNameTemplateProps {
+  id: string;
+  template: string;
+  defaultTemplate: string;
+  onChange: (template: string) => void;
+  // Tokens that mean something for this tool.
+  tokens: FileNameToken[];
+  // Values of the first output (or an example) for the live preview.
+  sample: FileNameValues;
+  extension: string;
+  sampleBlob?: Blob;
+  disabled?: boolean;
+}
+
+export function FileNameTemplate({
+  id,
+  template,
+  defaultTemplate,
+  onChange,
+  tokens,
+  sample,
+  extension,
+  sampleBlob,
+  disabled = false,
+}: FileNameTemplateProps) {
+  const [preview, setPreview] = useState('');
+  const sampleKey = JSON.stringify(sample);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Without an output yet, {hash} is shown as a placeholder.
+    const values = sampleBlob ? sample : { hash: 'xxxxxxxx', ...sample };
+    buildFileName(template, values, extension, sampleBlob)
+      .then(name => { if (!cancelled) setPreview(name); })
+      .catch(() => { if (!cancelled) setPreview(''); });
+    return () => { cancelled = true; };
+  }, [template, sampleKey, extension, sampleBlob]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>File Name Template</Label>
+      <div className="flex items-center gap-2">
+        <Input
+          type="text"
+          id={id}
+          value={template}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={defaultTemplate}
+          disabled={disabled}
+          className="w-full font-mono"
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => onChange(defaultTemplate)}
+          disabled={disabled || template === defaultTemplate}
+        >
+          Reset
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {fileNameTokens.filter(t => tokens.includes(t.token)).map(t => (
+          <button
+            key={t.token}
+            type="button"
+            title={t.description}
+            onClick={() => onChange(template + `{${t.token}}`)}
+            disabled={disabled}
+            className="rounded border px-1.5 py-0.5 font-mono text-xs text-muted-foreground hover:bg-muted disabled:opacity-50"
+          >
+            {`{${t.token}}`}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Preview: <span className="font-mono text-foreground">{preview}</span>
+      </p>
+    </div>
+  );
+}
@@ -26,6 +26,13 @@ export const Header = () => {
                 image size
               </NavigationMenuLink>
             </Link>
+          </NavigationMenuItem>
+          <NavigationMenuItem>
+            <Link to="/responsive">
+              <NavigationMenuLink>
+                responsive images
+              </NavigationMenuLink>
+            </Link>
           </NavigationMenuItem>
            <NavigationMenuItem>
             <Link to="/imageconvert">
@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Columns2, Maximize, Minus, Plus, SplitSquareHorizontal } from "lucide-react";
+
+import { Button } from "~/components/ui/button";
+import { cn } from "~/lib/utils";
+
+interface ImageCompareProps {
+  original: Blob;
+  output: Blob;
+  // Browser-displayable stand-in for the output, e.g. a JPEG preview of a TIFF.
+  outputPreviewUrl?: string;
+  className?: string;
+}
+
+// Transform shared by both images: screen = content * scale + offset.
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MAX_SCALE = 32;
+const PANE_HEIGHT = 400;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const useObjectUrl = (blob: Blob, override?: string) => {
+  const [url, setUrl] = useState<string | null>(override ?? null);
+  useEffect(() => {
+    if (override) {
+      setUrl(override);
+      return;
+    }
+    const created = URL.createObjectURL(blob);
+    setUrl(created);
+    return () => URL.revokeObjectURL(created);
+  }, [blob, override]);
+  return url;
+};
+
+// Before/after viewer: split slider or side by side, with zoom and pan applied to both images.
+// The original is stretched over the output's pixel grid so both line up at any zoom level.
+export function ImageCompare({ original, output, outputPreviewUrl, className }: ImageCompareProps) {
+  const originalUrl = useObjectUrl(original);
+  const outputUrl = useObjectUrl(output, outputPreviewUrl);
+  const [mode, setMode] = useState<'split' | 'side'>('split');
+  const [split, setSplit] = useState(50);
+  const [view, setView] = useState<View | null>(null); // null = fit to pane
+  const [originalSize, setOriginalSize] = useState<{ width: number, height: number } | null>(null);
+  const [outputSize, setOutputSize] = useState<{ width: number, height: number } | null>(null);
+  const [originalFailed, setOriginalFailed] = useState(false);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ kind: 'pan' | 'split', lastX: number, lastY: number, pane: HTMLElement } | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => setContainerWidth(entries[0].contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const content = outputSize ?? originalSize;
+  const paneWidth = mode === 'side' ? Math.max(0, (containerWidth - 8) / 2) : containerWidth;
+
+  const fitView = (): View => {
+    if (!content || paneWidth === 0) return { scale: 1, x: 0, y: 0 };
+    const scale = Math.min(paneWidth / content.width, PANE_HEIGHT / content.height, 1);
+    return {
+      scale,
+      x: (paneWidth - content.width * scale) / 2,
+      y: (PANE_HEIGHT - content.height * scale) / 2,
+    };
+  };
+  const current = view ?? fitView();
+  const minScale = Math.min(fitView().scale, 1);
+
+  const zoomAt = (factor: number, px: number, py: number) => {
+    setView(prev => {
+      const base = prev ?? fitView();
+      const scale = Math.min(MAX_SCALE, Math.max(minScale, base.scale * factor));
+      const ratio = scale / base.scale;
+      return { scale, x: px - (px - base.x) * ratio, y: py - (py - base.y) * ratio };
+    });
+  };
+
+  // Zoom around the pixel under the cursor. Needs a non-passive listener to stop page scrolling.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (event: WheelEvent) => {
+      const pane = (event.target as HTMLElement).closest<HTMLElement>('[data-compare-pane]');
+      if (!pane) return;
+      event.preventDefault();
+      const rect = pane.getBoundingClientRect();
+      zoomAt(Math.exp(-event.deltaY * 0.002), event.clientX - rect.left, event.clientY - rect.top);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  });
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pane = event.currentTarget;
+    const kind = (event.target as HTMLElement).closest('[data-split-handle]') ? 'split' : 'pan';
+    pane.setPointerCapture(event.pointerId);
+    dragRef.current = { kind, lastX: event.clientX, lastY: event.clientY, pane };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === 'split') {
+      const rect = drag.pane.getBoundingClientRect();
+      setSplit(Math.min(100, Math.max(0, (event.clientX - rect.left) / rect.width * 100)));
+      return;
+    }
+    const dx = event.clientX - drag.lastX;
+    const dy = event.clientY - drag.lastY;
+    drag.lastX = event.clientX;
+    drag.lastY = event.clientY;
+    setView(prev => {
+      const base = prev ?? fitView();
+      return { ...base, x: base.x + dx, y: base.y + dy };
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const zoomCenter = (factor: number) => zoomAt(factor, paneWidth / 2, PANE_HEIGHT / 2);
+
+  const actualSize = () => {
+    if (!content) return;
+    setView({
+      scale: 1,
+      x: (paneWidth - content.width) / 2,
+      y: (PANE_HEIGHT - content.height) / 2,
+    });
+  };
+
+  const imageStyle: React.CSSProperties = content ? {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    width: content.width,
+    height: content.height,
+    maxWidth: 'none',
+    transformOrigin: '0 0',
+    transform: `translate(${current.x}px, ${current.y}px) scale(${current.scale})`,
+    // Show real pixels instead of a blurred upscale when zoomed in.
+    imageRendering: current.scale >= 2 ? 'pixelated' : 'auto',
+  } : { maxWidth: '100%', maxHeight: PANE_HEIGHT };
+
+  const renderImage = (which: 'original' | 'output') => {
+    const url = which === 'original' ? originalUrl : outputUrl;
+    if (!url) return null;
+    if (which === 'original' && originalFailed) {
+      return (
+        <div className="absolute inset-0 flex items-center justify-center text-xs text-muted-foreground">
+          The browser cannot display the original format.
+        </div>
+      );
+    }
+    return (
+      <img
+        src={url}
+        alt={which === 'original' ? 'Original' : 'Output'}
+        draggable={false}
+        loading="lazy"
+        decoding="async"
+        style={imageStyle}
+        onLoad={(e) => {
+          const size = { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight };
+          if (which === 'original') setOriginalSize(size); else setOutputSize(size);
+        }}
+        onError={() => { if (which === 'original') setOriginalFailed(true); }}
+      />
+    );
+  };
+
+  const paneProps = {
+    'data-compare-pane': true,
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+    onDoubleClick: () => setView(null),
+    className: "relative overflow-hidden rounded-md border bg-muted cursor-grab active:cursor-grabbing touch-none select-none",
+    style: { height: PANE_HEIGHT },
+  };
+
+  const label = (text: string, side: 'left' | 'right') => (
+    <span className={cn(
+      "absolute top-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white pointer-events-none",
+      side === 'left' ? "left-2" : "right-2",
+    )}>
+      {text}
+    </span>
+  );
+
+  const reduction = original.size > 0 ? (1 - output.size / original.size) * 100 : 0;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant={mode === 'split' ? 'default' : 'outline'} onClick={() => { setMode('split'); setView(null); }}>
+          <SplitSquareHorizontal className="h-4 w-4" />
+          Slider
+        </Button>
+        <Button size="sm" variant={mode === 'side' ? 'default' : 'outline'} onClick={() => { setMode('side'); setView(null); }}>
+          <Columns2 className="h-4 w-4" />
+          Side by side
+        </Button>
+        <div className="ml-auto flex items-center gap-1">
+          <Button size="sm" variant="outline" onClick={() => zoomCenter(1 / 1.5)} aria-label="Zoom out">
+            <Minus className="h-4 w-4" />
+          </Button>
+          <span className="w-14 text-center text-xs tabular-nums">{Math.round(current.scale * 100)}%</span>
+          <Button size="sm" variant="outline" onClick={() => zoomCenter(1.5)} aria-label="Zoom in">
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={actualSize}>1:1</Button>
+          <Button size="sm" variant="outline" onClick={() => setView(null)} aria-label="Fit">
+            <Maximize className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div ref={containerRef}>
+        {mode === 'split' ? (
+          <div {...paneProps}>
+            {renderImage('original')}
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split}%)` }}>
+              {renderImage('output')}
+            </div>
+            {label('Original', 'left')}
+            {label('Output', 'right')}
+            <div
+              data-split-handle
+              className="absolute top-0 bottom-0 w-4 -ml-2 cursor-ew-resize flex justify-center"
+              style={{ left: `${split}%` }}
+            >
+              <div className="h-full w-0.5 bg-white shadow-[0_0_2px_rgba(0,0,0,0.8)]" />
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            <div {...paneProps}>
+              {renderImage('original')}
+              {label('Original', 'left')}
+            </div>
+            <div {...paneProps}>
+              {renderImage('output')}
+              {label('Output', 'left')}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+        <span>
+          Original: {originalSize ? `${originalSize.width}x${originalSize.height}, ` : ''}{formatSize(original.size)}
+        </span>
+        <span className="text-right">
+          Output: {outputSize ? `${outputSize.width}x${outputSize.height}, ` : ''}{formatSize(output.size)}
+          {' '}({reduction >= 0 ? '-' : '+'}{Math.abs(reduction).toFixed(1)}%)
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">Scroll to zoom, drag to pan, double-click to fit.</p>
+    </div>
+  );
+}
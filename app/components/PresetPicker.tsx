@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Save, Trash2, Upload } from "lucide-react";
+
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { downloadBlob } from "~/lib/downloadutils";
+import {
+  exportPresets,
+  loadUserPresets,
+  newPresetId,
+  parsePresetFile,
+  saveUserPresets,
+  type Preset,
+  type PresetTool,
+} from "~/lib/presets";
+
+interface PresetPickerProps<T> {
+  tool: PresetTool;
+  builtIns: Preset<T>[];
+  sanitize: (raw: unknown) => T | null;
+  // Current page settings, saved by "Save as preset"; null when they are not valid yet.
+  current: T | null;
+  onApply: (settings: T) => void;
+  onError: (message: string | null) => void;
+  disabled?: boolean;
+}
+
+// Preset selector with saving, deleting and JSON import/export of the user's own presets.
+export function PresetPicker<T>({ tool, builtIns, sanitize, current, onApply, onError, disabled = false }: PresetPickerProps<T>) {
+  const [userPresets, setUserPresets] = useState<Preset<T>[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [newName, setNewName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Read after mount; the page is prerendered without localStorage.
+  useEffect(() => {
+    setUserPresets(loadUserPresets(tool, sanitize));
+  }, [tool]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const persist = (next: Preset<T>[]) => {
+    setUserPresets(next);
+    try {
+      saveUserPresets(tool, next);
+    } catch (err) {
+      onError(`Could not save presets: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const selected = [...builtIns, ...userPresets].find(p => p.id === selectedId);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const preset = [...builtIns, ...userPresets].find(p => p.id === id);
+    if (preset) {
+      onError(null);
+      onApply(preset.settings);
+    }
+  };
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name || !current) return;
+    // Saving under an existing name updates that preset.
+    const existing = userPresets.find(p => p.name.toLowerCase() === name.toLowerCase());
+    const preset = { id: existing?.id ?? newPresetId(), name, settings: current };
+    persist(existing ? userPresets.map(p => (p.id === existing.id ? preset : p)) : [...userPresets, preset]);
+    setSelectedId(preset.id);
+    setNewName('');
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    persist(userPresets.filter(p => p.id !== selected.id));
+    setSelectedId('');
+  };
+
+  const handleExport = () => {
+    const json = exportPresets(tool, userPresets);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${tool}-presets.json`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text(), tool, sanitize);
+      const names = new Set(imported.map(p => p.name.toLowerCase()));
+      persist([...userPresets.filter(p => !names.has(p.name.toLowerCase())), ...imported]);
+      onError(null);
+    } catch (err) {
+      onError(`Failed to import presets: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor={`${tool}Preset`}>Preset</Label>
+          <div className="flex items-center gap-2">
+            <Select value={selectedId} onValueChange={handleSelect} disabled={disabled}>
+              <SelectTrigger id={`${tool}Preset`} className="w-full">
+                <SelectValue placeholder="Choose a preset" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectLabel>Built-in</SelectLabel>
+                  {builtIns.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectGroup>
+                {userPresets.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>My presets</SelectLabel>
+                    {userPresets.map(p => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              size="icon"
+              variant="outline"
+              onClick={handleDelete}
+              disabled={disabled || !selected || selected.builtIn}
+              aria-label="Delete preset"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor={`${tool}PresetName`}>Save Current Settings</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="text"
+              id={`${tool}PresetName`}
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              placeholder="Preset name"
+              disabled={disabled}
+              className="w-full"
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={handleSave}
+              disabled={disabled || !newName.trim() || !current}
+            >
+              <Save className="h-4 w-4" />
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" size="sm" variant="ghost" onClick={() => importInputRef.current?.click()} disabled={disabled}>
+          <Upload className="h-4 w-4" />
+          Import JSON
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={handleExport} disabled={disabled || userPresets.length === 0}>
+          <Download className="h-4 w-4" />
+          Export My Presets
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleImport}
+        />
+        {!current && (
+          <span className="text-xs text-muted-foreground">Enter valid settings to save them as a preset.</span>
+        )}
+      </div>
+    </div>
+  );
+}
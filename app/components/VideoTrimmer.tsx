@@ -0,0 +1,238 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pause, Play } from "lucide-react";
+
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { FormItem } from "~/components/ui/form";
+import { captureVideoThumbnails } from "~/lib/videoutils";
+import { formatTimecode, MIN_TRIM_LENGTH, type TrimRange } from "~/lib/trim";
+
+interface VideoTrimmerProps {
+  // Clip the range is chosen on; the same range is used for the whole batch.
+  video: Blob;
+  // null keeps the whole clip.
+  value: TrimRange | null;
+  onChange: (range: TrimRange) => void;
+  disabled?: boolean;
+}
+
+const THUMBNAIL_COUNT = 10;
+const THUMBNAIL_HEIGHT = 48;
+
+// In/out point editor: a preview player above a thumbnail strip with draggable start
+// and end handles. Clicking or dragging elsewhere on the strip scrubs the preview.
+export function VideoTrimmer({ video, value, onChange, disabled = false }: VideoTrimmerProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [unreadable, setUnreadable] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<'start' | 'end' | 'seek' | null>(null);
+
+  useEffect(() => {
+    const created = URL.createObjectURL(video);
+    setUrl(created);
+    setDuration(0);
+    setCurrentTime(0);
+    setUnreadable(false);
+    setPlaying(false);
+    return () => URL.revokeObjectURL(created);
+  }, [video]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setThumbnails([]);
+    captureVideoThumbnails(video, THUMBNAIL_COUNT, THUMBNAIL_HEIGHT)
+      .then(frames => { if (!cancelled) setThumbnails(frames); })
+      .catch(() => { /* the player shows the error */ });
+    return () => { cancelled = true; };
+  }, [video]);
+
+  const range: TrimRange = value
+    ? { start: Math.min(value.start, duration), end: Math.min(value.end, duration) }
+    : { start: 0, end: duration };
+  const percent = (t: number) => (duration > 0 ? t / duration * 100 : 0);
+
+  const seek = (t: number) => {
+    const player = videoRef.current;
+    if (player) player.currentTime = t;
+    setCurrentTime(t);
+  };
+
+  const setStart = (t: number) => {
+    const start = Math.min(Math.max(0, t), range.end - MIN_TRIM_LENGTH);
+    onChange({ start, end: range.end });
+    seek(start);
+  };
+
+  const setEnd = (t: number) => {
+    const end = Math.max(Math.min(duration, t), range.start + MIN_TRIM_LENGTH);
+    onChange({ start: range.start, end });
+    seek(end);
+  };
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const moveTo = (clientX: number) => {
+    const t = timeAt(clientX);
+    if (dragRef.current === 'start') setStart(t);
+    else if (dragRef.current === 'end') setEnd(t);
+    else seek(t);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || duration <= 0) return;
+    const handle = (event.target as HTMLElement).closest<HTMLElement>('[data-trim-handle]');
+    dragRef.current = (handle?.dataset.trimHandle as 'start' | 'end' | undefined) ?? 'seek';
+    event.currentTarget.setPointerCapture(event.pointerId);
+    videoRef.current?.pause();
+    moveTo(event.clientX);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current) moveTo(event.clientX);
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Plays the selection once, starting over when the playhead is outside it.
+  const togglePlay = () => {
+    const player = videoRef.current;
+    if (!player) return;
+    if (!player.paused) {
+      player.pause();
+      return;
+    }
+    if (player.currentTime < range.start || player.currentTime >= range.end - 0.05) {
+      player.currentTime = range.start;
+    }
+    player.play().catch(() => {});
+  };
+
+  const handleTimeUpdate = () => {
+    const player = videoRef.current;
+    if (!player) return;
+    if (!player.paused && player.currentTime >= range.end) {
+      player.pause();
+      player.currentTime = range.end;
+    }
+    setCurrentTime(player.currentTime);
+  };
+
+  const secondsInput = (id: string, label: string, current: number, set: (t: number) => void) => (
+    <FormItem>
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        type="number"
+        id={id}
+        value={Number(current.toFixed(1))}
+        onChange={(e) => { if (e.target.value !== '') set(parseFloat(e.target.value)); }}
+        min={0}
+        max={Number(duration.toFixed(1))}
+        step={0.1}
+        disabled={disabled || duration <= 0}
+        className="w-full"
+      />
+    </FormItem>
+  );
+
+  if (unreadable) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The browser cannot play this video, so it cannot be trimmed here. Choose another preview file.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {url && (
+        <video
+          ref={videoRef}
+          src={url}
+          preload="auto"
+          muted
+          playsInline
+          className="w-full max-w-md mx-auto rounded-md border bg-muted"
+          style={{ maxHeight: 240 }}
+          onLoadedMetadata={(e) => setDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : 0)}
+          onTimeUpdate={handleTimeUpdate}
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onError={() => setUnreadable(true)}
+        />
+      )}
+
+      <div
+        ref={trackRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="relative overflow-hidden rounded-md border bg-muted cursor-pointer touch-none select-none"
+        style={{ height: THUMBNAIL_HEIGHT }}
+      >
+        <div className="absolute inset-0 flex pointer-events-none">
+          {thumbnails.map((src, i) => (
+            <img key={i} src={src} alt="" draggable={false} className="h-full flex-1 min-w-0 object-cover" />
+          ))}
+        </div>
+        {/* Dim what is cut away */}
+        <div className="absolute inset-y-0 left-0 bg-black/60 pointer-events-none" style={{ width: `${percent(range.start)}%` }} />
+        <div className="absolute inset-y-0 right-0 bg-black/60 pointer-events-none" style={{ width: `${100 - percent(range.end)}%` }} />
+        <div
+          className="absolute inset-y-0 border-y-2 border-yellow-400 pointer-events-none"
+          style={{ left: `${percent(range.start)}%`, width: `${percent(range.end) - percent(range.start)}%` }}
+        />
+        {(['start', 'end'] as const).map(handle => (
+          <div
+            key={handle}
+            data-trim-handle={handle}
+            aria-label={handle === 'start' ? 'Start' : 'End'}
+            className="absolute inset-y-0 w-4 -ml-2 cursor-ew-resize flex justify-center"
+            style={{ left: `${percent(range[handle])}%` }}
+          >
+            <div className="h-full w-1.5 rounded-sm bg-yellow-400 shadow-[0_0_2px_rgba(0,0,0,0.8)]" />
+          </div>
+        ))}
+        <div
+          className="absolute inset-y-0 w-0.5 -ml-px bg-white shadow-[0_0_2px_rgba(0,0,0,0.8)] pointer-events-none"
+          style={{ left: `${percent(currentTime)}%` }}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" onClick={togglePlay} disabled={duration <= 0}>
+          {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          {playing ? 'Pause' : 'Play Selection'}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setStart(currentTime)} disabled={disabled || duration <= 0}>
+          Set Start Here
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setEnd(currentTime)} disabled={disabled || duration <= 0}>
+          Set End Here
+        </Button>
+        <span className="ml-auto text-xs tabular-nums text-muted-foreground">
+          {formatTimecode(currentTime)} / {formatTimecode(duration)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 items-end">
+        {secondsInput('trimStart', 'Start (s)', range.start, setStart)}
+        {secondsInput('trimEnd', 'End (s)', range.end, setEnd)}
+        <p className="text-sm text-muted-foreground pb-2">
+          Keeps {formatTimecode(range.end - range.start)}
+        </p>
+      </div>
+    </div>
+  );
+}
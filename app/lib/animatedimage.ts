@@ -0,0 +1,313 @@
+import {
+  applyTransform,
+  computeResizeGeometry,
+  isIdentityTransform,
+  renderResized,
+  transformedSize,
+  type ResizeAnchor,
+} from "./imagerender";
+import type { ResizeOptions } from "./imageutils";
+import type { Gravity } from "@imagemagick/magick-wasm";
+import { editFrames, filterTypeOf } from "./magick";
+import { removeExifProfileGps } from "./imagemetadata";
+import {
+  PNG_SIGNATURE,
+  concatBytes,
+  encodeAscii,
+  pngChunk,
+  readAscii,
+  readPngChunks,
+  startsWithAscii,
+} from "./binaryutils";
+import { drawWatermark, isWatermarkActive, renderWatermarkLayer } from "./watermark";
+import { describeSizedEncoding, encodeWithinSize } from "./qualitysearch";
+
+// Resizing of multi-frame images. The canvas only ever sees the first frame, so GIF and
+// animated WebP go through ImageMagick, and APNG is decoded with ImageDecoder and
+// reassembled frame by frame.
+
+export type AnimationFormat = 'gif' | 'webp' | 'apng';
+
+type ProgressCallback = (message: string, percent?: number) => void;
+
+const countGifFrames = (bytes: Uint8Array, stopAt: number): number => {
+  let p = 13;
+  const packed = bytes[10];
+  if (packed & 0x80) p += 3 * (1 << ((packed & 0x07) + 1));
+  const skipSubBlocks = () => {
+    while (p < bytes.length && bytes[p] !== 0) p += bytes[p] + 1;
+    p++;
+  };
+
+  let frames = 0;
+  while (p < bytes.length) {
+    const block = bytes[p];
+    if (block === 0x2c) {
+      if (++frames >= stopAt) return frames;
+      const localPacked = bytes[p + 9];
+      p += 10;
+      if (localPacked & 0x80) p += 3 * (1 << ((localPacked & 0x07) + 1));
+      p++; // LZW minimum code size
+      skipSubBlocks();
+    } else if (block === 0x21) {
+      p += 2;
+      skipSubBlocks();
+    } else {
+      break;
+    }
+  }
+  return frames;
+};
+
+// Returns the container format when the image has more than one frame.
+export const detectAnimation = (bytes: Uint8Array): AnimationFormat | null => {
+  if (startsWithAscii(bytes, 0, 'GIF8')) {
+    return countGifFrames(bytes, 2) > 1 ? 'gif' : null;
+  }
+  if (startsWithAscii(bytes, 0, 'RIFF') && startsWithAscii(bytes, 8, 'WEBP')) {
+    // VP8X animation flag
+    return readAscii(bytes, 12, 4) === 'VP8X' && (bytes[20] & 0x02) ? 'webp' : null;
+  }
+  if (startsWithAscii(bytes, 0, PNG_SIGNATURE)) {
+    for (const chunk of readPngChunks(bytes)) {
+      if (chunk.type === 'IDAT') break;
+      if (chunk.type === 'acTL') {
+        const frames = new DataView(chunk.data.buffer, chunk.data.byteOffset, chunk.data.byteLength).getUint32(0);
+        return frames > 1 ? 'apng' : null;
+      }
+    }
+  }
+  return null;
+};
+
+// --- ImageMagick (GIF, animated WebP) --------------------------------------------------
+
+const resizeWithMagick = async (
+  bytes: Uint8Array,
+  format: 'gif' | 'webp',
+  options: ResizeOptions,
+  onProgress: ProgressCallback,
+): Promise<Blob> => {
+  onProgress("Loading ImageMagick...", 20);
+  return editFrames(bytes, `resize the ${format.toUpperCase()} frames`, async ({ magick, frames: images, write }) => {
+    const { ImageMagick, MagickGeometry, MagickColor, Gravity, CompositeOperator } = magick;
+    const gravities: Record<ResizeAnchor, Gravity> = {
+      'top-left': Gravity.Northwest,
+      'top': Gravity.North,
+      'top-right': Gravity.Northeast,
+      'left': Gravity.West,
+      'center': Gravity.Center,
+      'right': Gravity.East,
+      'bottom-left': Gravity.Southwest,
+      'bottom': Gravity.South,
+      'bottom-right': Gravity.Southeast,
+    };
+
+    const transform = isIdentityTransform(options.transform) ? undefined : options.transform;
+    const rotated = transformedSize(images[0].width, images[0].height, transform);
+    const geometry = computeResizeGeometry(rotated.width, rotated.height, options);
+    const cropped = geometry.sx !== 0 || geometry.sy !== 0 ||
+      geometry.sw !== rotated.width || geometry.sh !== rotated.height;
+    const letterboxed = geometry.dw !== geometry.canvasWidth || geometry.dh !== geometry.canvasHeight;
+    const filterType = filterTypeOf(magick, options.filter ?? 'browser');
+    onProgress(`${images.length} frame(s), target size: ${geometry.canvasWidth}x${geometry.canvasHeight}`, 30);
+
+    images.forEach((image, i) => {
+      if (transform) {
+        const angle = transform.rotate + transform.straighten;
+        if (angle !== 0) {
+          image.backgroundColor = new MagickColor('transparent');
+          image.rotate(angle);
+        }
+        if (transform.flipHorizontal) image.flop();
+        if (transform.flipVertical) image.flip();
+        if (transform.straighten !== 0) {
+          // Cut the straightened rectangle out of the rotated bounding box.
+          image.crop(new MagickGeometry(
+            Math.floor((image.width - rotated.width) / 2), Math.floor((image.height - rotated.height) / 2),
+            rotated.width, rotated.height,
+          ));
+        }
+        image.resetPage();
+      }
+      if (cropped) {
+        image.crop(new MagickGeometry(
+          Math.round(geometry.sx), Math.round(geometry.sy), Math.round(geometry.sw), Math.round(geometry.sh),
+        ));
+        image.resetPage();
+      }
+      const size = new MagickGeometry(geometry.dw, geometry.dh);
+      size.ignoreAspectRatio = true;
+      if (filterType === undefined) {
+        image.resize(size);
+      } else {
+        image.resize(size, filterType);
+      }
+      if (letterboxed) {
+        const background = options.background && options.background !== 'transparent'
+          ? new MagickColor(options.background)
+          : new MagickColor('transparent');
+        image.extent(
+          new MagickGeometry(geometry.canvasWidth, geometry.canvasHeight),
+          gravities[options.anchor ?? 'center'],
+          background,
+        );
+      }
+      image.resetPage();
+      if (format === 'webp' && options.quality !== undefined) {
+        image.quality = Math.round(options.quality * 100);
+      }
+      const policy = options.metadata ?? 'strip';
+      if (policy === 'strip') {
+        image.strip();
+      } else if (policy === 'safe') {
+        // Same rules as retainMetadata: EXIF without the GPS block, no XMP.
+        const exif = image.getProfile('exif');
+        if (exif) image.setProfile('exif', removeExifProfileGps(exif.data));
+        image.removeProfile('xmp');
+      }
+      onProgress(`Resized frame ${i + 1}/${images.length}`, 30 + Math.round((i + 1) / images.length * 60));
+    });
+
+    if (isWatermarkActive(options.watermark)) {
+      onProgress(`Applying ${options.watermark.kind} watermark...`, 93);
+      const layer = await renderWatermarkLayer(geometry.canvasWidth, geometry.canvasHeight, options.watermark);
+      ImageMagick.read(layer, (overlay) => {
+        images.forEach(image => image.composite(overlay, CompositeOperator.Over));
+      });
+    }
+
+    onProgress(`Encoding ${format.toUpperCase()} (loop count ${images[0].animationIterations || 'infinite'})...`, 95);
+    if (options.maxBytes === undefined) {
+      return write(format);
+    }
+    if (format === 'webp') {
+      const result = await encodeWithinSize(quality => write(format, quality), options.maxBytes, onProgress);
+      onProgress(describeSizedEncoding(result, options.maxBytes));
+      return result.blob;
+    }
+    // GIF is always lossless, so there is no quality to trade for size.
+    const blob = write(format);
+    if (blob.size > options.maxBytes) {
+      onProgress(`Warning: the target file size does not apply to GIF; the result is ${(blob.size / 1024).toFixed(1)} KB, over the ${(options.maxBytes / 1024).toFixed(0)} KB target.`);
+    }
+    return blob;
+  });
+};
+
+// --- APNG --------------------------------------------------------------------------
+
+interface ApngFrame {
+  png: Uint8Array;
+  delayMs: number;
+}
+
+const assembleApng = (frames: ApngFrame[], plays: number): Uint8Array<ArrayBuffer> => {
+  const parsed = frames.map(f => readPngChunks(f.png));
+  const ihdr = parsed[0].find(c => c.type === 'IHDR');
+  if (!ihdr) {
+    throw new Error('Encoded frame has no IHDR chunk');
+  }
+  const ihdrView = new DataView(ihdr.data.buffer, ihdr.data.byteOffset, ihdr.data.byteLength);
+  const width = ihdrView.getUint32(0);
+  const height = ihdrView.getUint32(4);
+
+  const actl = new Uint8Array(8);
+  new DataView(actl.buffer).setUint32(0, frames.length);
+  new DataView(actl.buffer).setUint32(4, plays);
+
+  const parts: Uint8Array[] = [encodeAscii(PNG_SIGNATURE), pngChunk('IHDR', ihdr.data), pngChunk('acTL', actl)];
+  let sequence = 0;
+  parsed.forEach((chunks, i) => {
+    const frameIhdr = chunks.find(c => c.type === 'IHDR');
+    if (!frameIhdr || frameIhdr.data.some((b, k) => b !== ihdr.data[k])) {
+      throw new Error('Encoded frames use different PNG formats and cannot be combined');
+    }
+
+    // Frames are fully composited, so each one covers the canvas and replaces the previous.
+    const fctl = new Uint8Array(26);
+    const view = new DataView(fctl.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    view.setUint16(20, Math.min(0xffff, Math.round(frames[i].delayMs)));
+    view.setUint16(22, 1000);
+    parts.push(pngChunk('fcTL', fctl));
+
+    for (const idat of chunks.filter(c => c.type === 'IDAT')) {
+      if (i === 0) {
+        parts.push(pngChunk('IDAT', idat.data));
+      } else {
+        const fdat = new Uint8Array(4 + idat.data.length);
+        new DataView(fdat.buffer).setUint32(0, sequence++);
+        fdat.set(idat.data, 4);
+        parts.push(pngChunk('fdAT', fdat));
+      }
+    }
+  });
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+  return concatBytes(parts);
+};
+
+const resizeApng = async (
+  bytes: Uint8Array<ArrayBuffer>,
+  options: ResizeOptions,
+  onProgress: ProgressCallback,
+): Promise<Blob> => {
+  if (typeof ImageDecoder === 'undefined') {
+    throw new Error('Resizing animated PNG requires a browser with the ImageDecoder API (e.g. Chrome or Edge).');
+  }
+  const decoder = new ImageDecoder({ data: bytes, type: 'image/png' });
+  try {
+    await decoder.tracks.ready;
+    const track = decoder.tracks.selectedTrack;
+    if (!track) {
+      throw new Error('No image track found');
+    }
+    const background = options.background && options.background !== 'transparent' ? options.background : null;
+    const frames: ApngFrame[] = [];
+    for (let i = 0; i < track.frameCount; i++) {
+      const { image } = await decoder.decode({ frameIndex: i });
+      let bitmap = await createImageBitmap(image);
+      if (!isIdentityTransform(options.transform)) {
+        bitmap = await applyTransform(bitmap, options.transform!);
+      }
+      const delayMs = (image.duration ?? 100000) / 1000;
+      image.close();
+
+      const geometry = computeResizeGeometry(bitmap.width, bitmap.height, options);
+      if (i === 0) {
+        onProgress(`${track.frameCount} frame(s), target size: ${geometry.canvasWidth}x${geometry.canvasHeight}`, 30);
+      }
+      const canvas = renderResized(bitmap, geometry, options.filter ?? 'browser', background);
+      bitmap.close();
+      if (isWatermarkActive(options.watermark)) {
+        await drawWatermark(canvas, options.watermark);
+      }
+      const encoded = await canvas.convertToBlob({ type: 'image/png' });
+      frames.push({ png: new Uint8Array(await encoded.arrayBuffer()), delayMs });
+      onProgress(`Resized frame ${i + 1}/${track.frameCount}`, 30 + Math.round((i + 1) / track.frameCount * 60));
+    }
+
+    // repetitionCount counts repeats after the first play; APNG's num_plays uses 0 for forever.
+    const plays = Number.isFinite(track.repetitionCount) ? track.repetitionCount + 1 : 0;
+    onProgress(`Assembling APNG (${plays === 0 ? 'infinite loop' : `${plays} play(s)`})...`, 95);
+    return new Blob([assembleApng(frames, plays)], { type: 'image/png' });
+  } finally {
+    decoder.close();
+  }
+};
+
+// Resizes every frame while keeping frame delays, loop count and transparency.
+// Also used for single-frame GIFs, which the canvas encoders cannot write.
+export const resizeAnimatedImage = (
+  bytes: Uint8Array<ArrayBuffer>,
+  format: AnimationFormat,
+  options: ResizeOptions,
+  onProgress: ProgressCallback,
+): Promise<Blob> => {
+  if (format === 'apng') {
+    return resizeApng(bytes, options, onProgress);
+  }
+  return resizeWithMagick(bytes, format, options, onProgress);
+};
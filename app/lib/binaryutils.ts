@@ -0,0 +1,59 @@
+import { crc32 } from "./crc32";
+
+export const PNG_SIGNATURE = '\x89PNG\r\n\x1a\n';
+
+// One byte per character (Latin-1), so signatures such as PNG's "\x89PNG" stay intact.
+export const encodeAscii = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+export const startsWithAscii = (bytes: Uint8Array, offset: number, text: string) => {
+  if (offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+export const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export interface PngChunk {
+  type: string;
+  // Offset of the chunk's length field.
+  offset: number;
+  data: Uint8Array;
+}
+
+export const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let p = 8;
+  while (p + 8 <= bytes.length) {
+    const length = view.getUint32(p);
+    const type = readAscii(bytes, p + 4, 4);
+    chunks.push({ type, offset: p, data: bytes.subarray(p + 8, Math.min(bytes.length, p + 8 + length)) });
+    if (type === 'IEND') break;
+    p += 12 + length;
+  }
+  return chunks;
+};
+
+export const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encodeAscii(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
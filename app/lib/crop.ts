@@ -0,0 +1,79 @@
+// Crop rectangles in source pixels (after EXIF orientation), shared by the pipeline and the crop overlay.
+// The batch stores them relative to the image size so one selection fits files of any size.
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type AspectPreset = 'free' | '1:1' | '4:5' | '16:9' | '9:16' | 'custom';
+
+export const aspectPresets: { value: AspectPreset, label: string }[] = [
+  { value: 'free', label: 'Free' },
+  { value: '1:1', label: '1:1 (square)' },
+  { value: '4:5', label: '4:5 (portrait)' },
+  { value: '16:9', label: '16:9 (landscape)' },
+  { value: '9:16', label: '9:16 (vertical)' },
+  { value: 'custom', label: 'Custom' },
+];
+
+// Width / height, or null for free-form.
+export const aspectRatioOf = (preset: AspectPreset, custom: { width: number, height: number }): number | null => {
+  if (preset === 'free') return null;
+  if (preset === 'custom') {
+    return custom.width > 0 && custom.height > 0 ? custom.width / custom.height : null;
+  }
+  const [w, h] = preset.split(':').map(Number);
+  return w / h;
+};
+
+// CropRect in fractions (0-1) of the image width and height.
+export type RelativeCrop = CropRect;
+
+export const toRelativeCrop = (crop: CropRect, imageWidth: number, imageHeight: number): RelativeCrop => ({
+  x: crop.x / imageWidth,
+  y: crop.y / imageHeight,
+  width: crop.width / imageWidth,
+  height: crop.height / imageHeight,
+});
+
+export const toPixelCrop = (crop: RelativeCrop, imageWidth: number, imageHeight: number): CropRect => ({
+  x: crop.x * imageWidth,
+  y: crop.y * imageHeight,
+  width: crop.width * imageWidth,
+  height: crop.height * imageHeight,
+});
+
+// Intersects the rectangle with the image and rounds it to whole pixels.
+// Returns null when nothing of it is left.
+export const clampCrop = (crop: CropRect, imageWidth: number, imageHeight: number): CropRect | null => {
+  const x = Math.max(0, Math.round(crop.x));
+  const y = Math.max(0, Math.round(crop.y));
+  const right = Math.min(imageWidth, Math.round(crop.x + crop.width));
+  const bottom = Math.min(imageHeight, Math.round(crop.y + crop.height));
+  if (right - x < 1 || bottom - y < 1) return null;
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+// Largest rectangle of the given ratio centered on `around` (the whole image by default).
+export const fitAspect = (
+  ratio: number,
+  imageWidth: number,
+  imageHeight: number,
+  around?: CropRect,
+): CropRect => {
+  const base = around ?? { x: 0, y: 0, width: imageWidth, height: imageHeight };
+  const cx = base.x + base.width / 2;
+  const cy = base.y + base.height / 2;
+  // Keep the area of the current selection, capped by the image bounds.
+  let height = Math.sqrt(base.width * base.height / ratio);
+  let width = height * ratio;
+  const scale = Math.min(1, imageWidth / width, imageHeight / height);
+  width *= scale;
+  height *= scale;
+  const x = Math.min(Math.max(0, cx - width / 2), imageWidth - width);
+  const y = Math.min(Math.max(0, cy - height / 2), imageHeight - height);
+  return { x: Math.round(x), y: Math.round(y), width: Math.round(width), height: Math.round(height) };
+};
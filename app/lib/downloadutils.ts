@@ -0,0 +1,41 @@
+import { createZip } from "./ziputils";
+
+export const downloadBlob = (blob: Blob, fileName: string, url?: string) => {
+  const href = url ?? URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  if (!url) {
+    // Revoke on the next tick so the download has started.
+    setTimeout(() => URL.revokeObjectURL(href), 0);
+  }
+};
+
+// Returns `name`, or "base_2.ext", "base_3.ext", ... when it is already in `used`.
+// Names are compared case-insensitively because most file systems do so too.
+export const uniqueFileName = (name: string, used: Set<string>): string => {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  let candidate = name;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base}_${n}${ext}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Packs the files in the given order into one ZIP and downloads it.
+export const downloadAsZip = async (
+  files: { name: string, blob: Blob }[],
+  archiveName: string,
+  onProgress?: (done: number, total: number) => void,
+) => {
+  const used = new Set<string>();
+  const entries = files.map(f => ({ name: uniqueFileName(f.name, used), blob: f.blob }));
+  const zip = await createZip(entries, onProgress);
+  downloadBlob(zip, archiveName);
+};
@@ -0,0 +1,124 @@
+import type { CompressionMethod, DitherMethod, IMagickImage } from "@imagemagick/magick-wasm";
+import type { Magick } from "./magick";
+
+// Per-format settings for ImageMagick's encoders. Only the block that matches the target
+// format is applied; the others keep their values so switching formats back and forth
+// does not lose them.
+
+export type ChromaSubsampling = '4:2:0' | '4:2:2' | '4:4:4';
+export type TiffCompression = 'none' | 'lzw' | 'zip' | 'jpeg';
+export type GifDither = 'none' | 'floyd-steinberg' | 'riemersma';
+
+export interface EncoderOptions {
+  jpg: { quality: number, progressive: boolean, chroma: ChromaSubsampling };
+  webp: { lossless: boolean, quality: number };
+  // Speed 0 (slowest, smallest) to 9 (fastest).
+  avif: { quality: number, speed: number };
+  // zlib level 0-9; bit depth per channel.
+  png: { compressionLevel: number, bitDepth: 8 | 16 };
+  tiff: { compression: TiffCompression, quality: number };
+  gif: { dither: GifDither };
+}
+
+export const defaultEncoderOptions: EncoderOptions = {
+  jpg: { quality: 90, progressive: false, chroma: '4:2:0' },
+  webp: { lossless: false, quality: 85 },
+  avif: { quality: 60, speed: 6 },
+  png: { compressionLevel: 6, bitDepth: 8 },
+  tiff: { compression: 'lzw', quality: 90 },
+  gif: { dither: 'floyd-steinberg' },
+};
+
+export const chromaSubsamplings: { value: ChromaSubsampling, label: string }[] = [
+  { value: '4:2:0', label: '4:2:0 (smallest)' },
+  { value: '4:2:2', label: '4:2:2' },
+  { value: '4:4:4', label: '4:4:4 (sharpest color)' },
+];
+
+export const tiffCompressions: { value: TiffCompression, label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'lzw', label: 'LZW' },
+  { value: 'zip', label: 'ZIP (Deflate)' },
+  { value: 'jpeg', label: 'JPEG (lossy)' },
+];
+
+export const gifDithers: { value: GifDither, label: string }[] = [
+  { value: 'floyd-steinberg', label: 'Floyd-Steinberg' },
+  { value: 'riemersma', label: 'Riemersma' },
+  { value: 'none', label: 'None (flat colors)' },
+];
+
+// Sets up `image` so that the next write in `format` uses the chosen options.
+export const applyEncoderOptions = (magick: Magick, image: IMagickImage, format: string, options: EncoderOptions) => {
+  const { CompressionMethod, DitherMethod, Interlace, MagickFormat, QuantizeSettings } = magick;
+  const tiffCompressionMethods: Record<TiffCompression, CompressionMethod> = {
+    none: CompressionMethod.NoCompression,
+    lzw: CompressionMethod.LZW,
+    zip: CompressionMethod.Zip,
+    jpeg: CompressionMethod.JPEG,
+  };
+  const gifDitherMethods: Record<GifDither, DitherMethod> = {
+    'none': DitherMethod.No,
+    'floyd-steinberg': DitherMethod.FloydSteinberg,
+    'riemersma': DitherMethod.Riemersma,
+  };
+
+  switch (format) {
+    case 'jpg':
+    case 'jpeg':
+      image.quality = options.jpg.quality;
+      image.settings.interlace = options.jpg.progressive ? Interlace.Plane : Interlace.NoInterlace;
+      image.settings.setDefine(MagickFormat.Jpeg, 'sampling-factor', options.jpg.chroma);
+      break;
+    case 'webp':
+      image.settings.setDefine(MagickFormat.WebP, 'lossless', options.webp.lossless);
+      image.quality = options.webp.lossless ? 100 : options.webp.quality;
+      break;
+    case 'avif':
+      image.quality = options.avif.quality;
+      // The AVIF encoder lives in the HEIC coder and reads its settings from there.
+      image.settings.setDefine(MagickFormat.Heic, 'speed', options.avif.speed);
+      break;
+    case 'png':
+      image.settings.setDefine(MagickFormat.Png, 'compression-level', options.png.compressionLevel);
+      image.depth = options.png.bitDepth;
+      break;
+    case 'tiff':
+      image.settings.compression = tiffCompressionMethods[options.tiff.compression];
+      if (options.tiff.compression === 'jpeg') {
+        image.quality = options.tiff.quality;
+      }
+      break;
+    case 'gif': {
+      // Reduce to the GIF palette here so the dithering choice is ours, not the encoder default.
+      const quantize = new QuantizeSettings();
+      quantize.colors = 256;
+      quantize.ditherMethod = gifDitherMethods[options.gif.dither];
+      image.quantize(quantize);
+      break;
+    }
+  }
+};
+
+// Short summary for the result list, e.g. "quality 90, progressive, 4:2:0".
+export const describeEncoderOptions = (format: string, options: EncoderOptions): string => {
+  switch (format) {
+    case 'jpg':
+    case 'jpeg':
+      return `quality ${options.jpg.quality}${options.jpg.progressive ? ', progressive' : ''}, ${options.jpg.chroma}`;
+    case 'webp':
+      return options.webp.lossless ? 'lossless' : `lossy, quality ${options.webp.quality}`;
+    case 'avif':
+      return `quality ${options.avif.quality}, speed ${options.avif.speed}`;
+    case 'png':
+      return `compression ${options.png.compressionLevel}, ${options.png.bitDepth}-bit`;
+    case 'tiff':
+      return options.tiff.compression === 'jpeg'
+        ? `JPEG compression, quality ${options.tiff.quality}`
+        : `${tiffCompressions.find(c => c.value === options.tiff.compression)?.label} compression`;
+    case 'gif':
+      return `${gifDithers.find(d => d.value === options.gif.dither)?.label} dithering`;
+    default:
+      return '';
+  }
+};
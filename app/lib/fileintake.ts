@@ -0,0 +1,86 @@
+// Helpers for collecting files from inputs, drag-and-drop, the clipboard and folders.
+
+export const getFileExtension = (fileName: string): string | undefined =>
+  fileName.includes('.') ? fileName.split('.').pop()?.toLowerCase() : undefined;
+
+const readDirectoryEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const walkEntry = async (entry: FileSystemEntry, files: File[]) => {
+  if (entry.isFile) {
+    files.push(await readEntryFile(entry as FileSystemFileEntry));
+    return;
+  }
+  if (!entry.isDirectory) return;
+
+  // readEntries returns at most ~100 entries per call, so read until it comes back empty.
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await readDirectoryEntries(reader);
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  children.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  for (const child of children) {
+    // Skip hidden files such as .DS_Store.
+    if (child.name.startsWith('.')) continue;
+    await walkEntry(child, files);
+  }
+};
+
+// Collects dropped files, walking dropped folders recursively.
+// Must be called synchronously from the drop handler: the items are cleared once it returns.
+export const collectDroppedFiles = (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Promise.resolve(Array.from(dataTransfer.files));
+  }
+  return (async () => {
+    const files: File[] = [];
+    for (const entry of entries) {
+      await walkEntry(entry!, files);
+    }
+    return files;
+  })();
+};
+
+// Splits files into the accepted ones and messages for the rejected ones.
+export const filterFiles = (
+  files: File[],
+  extensions: readonly string[],
+  maxFiles?: number,
+): { accepted: File[], errors: string[] } => {
+  const accepted: File[] = [];
+  const errors: string[] = [];
+  for (const file of files) {
+    const fileExt = getFileExtension(file.name);
+    if (!fileExt || !extensions.includes(fileExt)) {
+      errors.push(`Unsupported file type: "${file.webkitRelativePath || file.name}". Supported types: ${extensions.join(', ')}`);
+      continue;
+    }
+    if (maxFiles !== undefined && accepted.length >= maxFiles) {
+      errors.push(`You can only select up to ${maxFiles} files. File "${file.name}" was ignored.`);
+      continue;
+    }
+    accepted.push(file);
+  }
+  return { accepted, errors };
+};
+
+// Screenshots pasted from the clipboard arrive as "image.png"; give them a unique, timestamped name.
+// Files copied in a file manager keep their real names.
+export const nameClipboardFile = (file: File, index: number): File => {
+  if (!/^image\.\w+$/.test(file.name)) return file;
+  const ext = file.type.split('/')[1]?.replace('jpeg', 'jpg') || getFileExtension(file.name) || 'png';
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, '').replace('T', '-');
+  return new File([file], `pasted-${stamp}${index > 0 ? `-${index + 1}` : ''}.${ext}`, {
+    type: file.type,
+    lastModified: file.lastModified,
+  });
+};
@@ -0,0 +1,84 @@
+import { blobCrc32 } from "./crc32";
+
+// Download names are built from a per-tool template such as "{name}_{w}x{h}". The template
+// describes the base name only; the extension always follows the output format.
+
+export type FileNameToken = 'name' | 'w' | 'h' | 'fps' | 'format' | 'index' | 'date' | 'hash';
+
+export type FileNameValues = Partial<Record<FileNameToken, string | number>>;
+
+export const fileNameTokens: { token: FileNameToken, description: string }[] = [
+  { token: 'name', description: 'original file name without extension' },
+  { token: 'w', description: 'output width' },
+  { token: 'h', description: 'output height' },
+  { token: 'fps', description: 'output frame rate' },
+  { token: 'format', description: 'output format' },
+  { token: 'index', description: 'position in the batch, starting at 1' },
+  { token: 'date', description: 'download time, YYYYMMDD-HHMMSS' },
+  { token: 'hash', description: 'first 8 hex digits of the output CRC-32' },
+];
+
+const TOKEN_PATTERN = /\{(name|w|h|fps|format|index|date|hash)\}/g;
+// Illegal on Windows, macOS or Linux, plus control characters.
+const ILLEGAL_CHARACTERS = /[<>:"/\\|?*\u0000-\u001f\u007f]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])$/i;
+const MAX_BASE_LENGTH = 200;
+
+export const templateUses = (template: string, token: FileNameToken) => template.includes(`{${token}}`);
+
+// Local time, so the stamp matches the clock of whoever downloads.
+export const formatDateToken = (date = new Date()) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+    + `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+// Zero-padded so the files sort in batch order.
+export const formatIndexToken = (index: number, total: number) =>
+  String(index + 1).padStart(String(Math.max(total, 1)).length, '0');
+
+export const contentHash = async (blob: Blob): Promise<string> =>
+  (await blobCrc32(blob)).toString(16).padStart(8, '0');
+
+// Replaces characters that are not allowed in file names and avoids names Windows refuses.
+export const sanitizeFileName = (base: string): string => {
+  let clean = base
+    .replace(ILLEGAL_CHARACTERS, '_')
+    .replace(/^[\s.]+|[\s.]+$/g, '');
+  if (RESERVED_NAMES.test(clean)) {
+    clean = `_${clean}`;
+  }
+  return Array.from(clean).slice(0, MAX_BASE_LENGTH).join('');
+};
+
+// Tokens without a value become empty; separators left dangling at either end are trimmed.
+export const renderFileName = (template: string, values: FileNameValues, extension: string, fallback = 'file'): string => {
+  const base = template
+    .replace(TOKEN_PATTERN, (_, token: FileNameToken) => String(values[token] ?? ''))
+    .replace(/^[\s._-]+|[\s._-]+$/g, '');
+  const clean = sanitizeFileName(base) || fallback;
+  return extension ? `${clean}.${extension}` : clean;
+};
+
+// Same as renderFileName, computing {hash} and {date} only when the template uses them.
+export const buildFileName = async (
+  template: string,
+  values: FileNameValues,
+  extension: string,
+  blob?: Blob,
+  fallback?: string,
+): Promise<string> => {
+  const filled: FileNameValues = { format: extension, ...values };
+  if (templateUses(template, 'date') && filled.date === undefined) {
+    filled.date = formatDateToken();
+  }
+  if (templateUses(template, 'hash') && filled.hash === undefined && blob) {
+    filled.hash = await contentHash(blob);
+  }
+  return renderFileName(template, filled, extension, fallback);
+};
+
+export const baseNameOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+};
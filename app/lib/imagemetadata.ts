@@ -0,0 +1,509 @@
+import { crc32 } from "./crc32";
+import {
+  PNG_SIGNATURE,
+  concatBytes,
+  encodeAscii,
+  pngChunk,
+  readAscii,
+  readPngChunks,
+  startsWithAscii,
+} from "./binaryutils";
+
+// Reading, filtering and re-embedding of EXIF / XMP metadata.
+// Canvas re-encoding drops every metadata segment, so whatever should survive a resize
+// is read from the source bytes here and written back into the encoded output.
+
+export type MetadataPolicy = 'strip' | 'safe' | 'keep';
+
+export const metadataPolicies: { value: MetadataPolicy, label: string }[] = [
+  { value: 'strip', label: 'Strip all metadata' },
+  { value: 'safe', label: 'Keep copyright/camera info, strip GPS' },
+  { value: 'keep', label: 'Keep everything' },
+];
+
+export interface ImageMetadata {
+  // TIFF structure of the EXIF block, starting at the "II*\0" / "MM\0*" header.
+  // A view into the source bytes, so edits apply to the source as well.
+  exif: Uint8Array | null;
+  // XMP packet (UTF-8 XML).
+  xmp: Uint8Array | null;
+  // EXIF Orientation tag, 1 when absent.
+  orientation: number;
+  // AVIF rotation/mirroring (irot/imir) is applied by the browser's decoder itself.
+  hasNativeTransform: boolean;
+}
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8,
+};
+
+// --- TIFF (EXIF payload) -------------------------------------------------------------
+
+interface TiffView {
+  view: DataView;
+  little: boolean;
+  length: number;
+}
+
+const openTiff = (tiff: Uint8Array): TiffView | null => {
+  if (tiff.length < 8) return null;
+  const little = tiff[0] === 0x49 && tiff[1] === 0x49;
+  const big = tiff[0] === 0x4d && tiff[1] === 0x4d;
+  if (!little && !big) return null;
+  return { view: new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength), little, length: tiff.length };
+};
+
+const u16 = (t: TiffView, offset: number) => t.view.getUint16(offset, t.little);
+const u32 = (t: TiffView, offset: number) => t.view.getUint32(offset, t.little);
+
+// Offset of the 12-byte IFD entry for `tag`, or -1.
+const findIfdEntry = (t: TiffView, ifdOffset: number, tag: number): number => {
+  if (ifdOffset <= 0 || ifdOffset + 2 > t.length) return -1;
+  const count = u16(t, ifdOffset);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > t.length) return -1;
+    if (u16(t, entry) === tag) return entry;
+  }
+  return -1;
+};
+
+const writeEntryNumber = (t: TiffView, entry: number, value: number) => {
+  const type = u16(t, entry + 2);
+  if (type === 3) t.view.setUint16(entry + 8, value, t.little);
+  else if (type === 4) t.view.setUint32(entry + 8, value, t.little);
+};
+
+const readExifOrientation = (tiff: Uint8Array): number => {
+  const t = openTiff(tiff);
+  if (!t) return 1;
+  const entry = findIfdEntry(t, u32(t, 4), TAG_ORIENTATION);
+  if (entry < 0) return 1;
+  const value = u16(t, entry + 8);
+  return value >= 1 && value <= 8 ? value : 1;
+};
+
+// Rewrites the Orientation tag in place.
+export const setExifOrientation = (tiff: Uint8Array, orientation: number) => {
+  const t = openTiff(tiff);
+  if (!t) return;
+  const entry = findIfdEntry(t, u32(t, 4), TAG_ORIENTATION);
+  if (entry >= 0) writeEntryNumber(t, entry, orientation);
+};
+
+// Updates PixelXDimension / PixelYDimension in the Exif sub-IFD in place.
+const setExifPixelDimensions = (tiff: Uint8Array, width: number, height: number) => {
+  const t = openTiff(tiff);
+  if (!t) return;
+  const pointer = findIfdEntry(t, u32(t, 4), TAG_EXIF_IFD);
+  if (pointer < 0) return;
+  const exifIfd = u32(t, pointer + 8);
+  const xEntry = findIfdEntry(t, exifIfd, TAG_PIXEL_X_DIMENSION);
+  const yEntry = findIfdEntry(t, exifIfd, TAG_PIXEL_Y_DIMENSION);
+  if (xEntry >= 0) writeEntryNumber(t, xEntry, width);
+  if (yEntry >= 0) writeEntryNumber(t, yEntry, height);
+};
+
+// Returns a copy of the TIFF block without the GPS IFD. The GPS entries and their
+// out-of-line values are zeroed, not just unlinked, so no coordinates remain in the bytes.
+const removeExifGps = (source: Uint8Array): Uint8Array => {
+  const tiff = source.slice();
+  const t = openTiff(tiff);
+  if (!t) return tiff;
+  const ifd0 = u32(t, 4);
+  const pointer = findIfdEntry(t, ifd0, TAG_GPS_IFD);
+  if (pointer < 0) return tiff;
+
+  const gpsIfd = u32(t, pointer + 8);
+  if (gpsIfd > 0 && gpsIfd + 2 <= t.length) {
+    const count = u16(t, gpsIfd);
+    for (let i = 0; i < count; i++) {
+      const entry = gpsIfd + 2 + i * 12;
+      if (entry + 12 > t.length) break;
+      const size = (TIFF_TYPE_SIZES[u16(t, entry + 2)] ?? 1) * u32(t, entry + 4);
+      if (size > 4) {
+        const valueOffset = u32(t, entry + 8);
+        if (valueOffset + size <= t.length) tiff.fill(0, valueOffset, valueOffset + size);
+      }
+    }
+    tiff.fill(0, gpsIfd, Math.min(t.length, gpsIfd + 2 + count * 12 + 4));
+  }
+
+  // Drop the pointer entry from IFD0 by shifting the following entries and the next-IFD link up.
+  const count = u16(t, ifd0);
+  const end = ifd0 + 2 + count * 12 + 4;
+  tiff.copyWithin(pointer, pointer + 12, end);
+  tiff.fill(0, end - 12, end);
+  t.view.setUint16(ifd0, count - 1, t.little);
+  return tiff;
+};
+
+// Same as removeExifGps for an ImageMagick "exif" profile, which may carry the APP1 header.
+export const removeExifProfileGps = (profile: Uint8Array): Uint8Array => {
+  if (startsWithAscii(profile, 0, 'Exif\0\0')) {
+    return concatBytes([profile.subarray(0, 6), removeExifGps(profile.subarray(6))]);
+  }
+  return removeExifGps(profile);
+};
+
+// --- Container parsing ---------------------------------------------------------------
+
+const readJpegMetadata = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  let p = 2;
+  while (p + 4 <= bytes.length) {
+    if (bytes[p] !== 0xff) break;
+    const marker = bytes[p + 1];
+    if (marker === 0xff) {
+      p++;
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0xda) break;
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      p += 2;
+      continue;
+    }
+    const size = (bytes[p + 2] << 8) | bytes[p + 3];
+    const start = p + 4;
+    const end = Math.min(bytes.length, p + 2 + size);
+    if (marker === 0xe1) {
+      if (!metadata.exif && startsWithAscii(bytes, start, 'Exif\0\0')) {
+        metadata.exif = bytes.subarray(start + 6, end);
+      } else if (!metadata.xmp && startsWithAscii(bytes, start, XMP_NAMESPACE + '\0')) {
+        metadata.xmp = bytes.subarray(start + XMP_NAMESPACE.length + 1, end);
+      }
+    }
+    p = p + 2 + size;
+  }
+};
+
+const readPngMetadata = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  for (const { type, data } of readPngChunks(bytes)) {
+    if (type === 'eXIf') {
+      metadata.exif = data;
+    } else if (type === 'iTXt' && startsWithAscii(data, 0, PNG_XMP_KEYWORD + '\0')) {
+      let q = PNG_XMP_KEYWORD.length + 1;
+      const compressed = data[q] !== 0;
+      q += 2;
+      // Skip language tag and translated keyword.
+      for (let nul = 0; nul < 2 && q < data.length; q++) {
+        if (data[q] === 0) nul++;
+      }
+      if (!compressed) metadata.xmp = data.subarray(q);
+    }
+  }
+};
+
+interface IsoBox {
+  type: string;
+  start: number; // payload start
+  end: number;
+}
+
+const readIsoBoxes = (bytes: Uint8Array, from: number, to: number): IsoBox[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: IsoBox[] = [];
+  let p = from;
+  while (p + 8 <= to) {
+    let size = view.getUint32(p);
+    const type = readAscii(bytes, p + 4, 4);
+    let header = 8;
+    if (size === 1) {
+      size = view.getUint32(p + 8) * 2 ** 32 + view.getUint32(p + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = to - p;
+    }
+    if (size < header) break;
+    boxes.push({ type, start: p + header, end: Math.min(to, p + size) });
+    p += size;
+  }
+  return boxes;
+};
+
+const readAvifMetadata = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readUint = (offset: number, size: number) => {
+    if (size === 0) return 0;
+    if (size === 2) return view.getUint16(offset);
+    if (size === 4) return view.getUint32(offset);
+    return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+  };
+
+  const meta = readIsoBoxes(bytes, 0, bytes.length).find(b => b.type === 'meta');
+  if (!meta) return;
+  // 'meta' is a full box: skip version and flags.
+  const children = readIsoBoxes(bytes, meta.start + 4, meta.end);
+
+  const itemTypes = new Map<number, string>();
+  const iinf = children.find(b => b.type === 'iinf');
+  if (iinf) {
+    const version = bytes[iinf.start];
+    const entriesStart = iinf.start + 4 + (version === 0 ? 2 : 4);
+    for (const infe of readIsoBoxes(bytes, entriesStart, iinf.end)) {
+      if (infe.type !== 'infe' || bytes[infe.start] < 2) continue;
+      const infeVersion = bytes[infe.start];
+      let q = infe.start + 4;
+      const itemId = infeVersion === 2 ? view.getUint16(q) : view.getUint32(q);
+      q += (infeVersion === 2 ? 2 : 4) + 2;
+      let type = readAscii(bytes, q, 4);
+      q += 4;
+      if (type === 'mime') {
+        // Skip item_name, then read content_type.
+        while (q < infe.end && bytes[q] !== 0) q++;
+        const contentStart = ++q;
+        while (q < infe.end && bytes[q] !== 0) q++;
+        type = `mime:${readAscii(bytes, contentStart, q - contentStart)}`;
+      }
+      itemTypes.set(itemId, type);
+    }
+  }
+
+  const itemData = new Map<number, Uint8Array>();
+  const iloc = children.find(b => b.type === 'iloc');
+  if (iloc) {
+    const version = bytes[iloc.start];
+    let q = iloc.start + 4;
+    const offsetSize = bytes[q] >> 4;
+    const lengthSize = bytes[q] & 0x0f;
+    const baseOffsetSize = bytes[q + 1] >> 4;
+    const indexSize = version === 1 || version === 2 ? bytes[q + 1] & 0x0f : 0;
+    q += 2;
+    const itemCount = version < 2 ? view.getUint16(q) : view.getUint32(q);
+    q += version < 2 ? 2 : 4;
+    for (let i = 0; i < itemCount && q < iloc.end; i++) {
+      const itemId = version < 2 ? view.getUint16(q) : view.getUint32(q);
+      q += version < 2 ? 2 : 4;
+      let constructionMethod = 0;
+      if (version === 1 || version === 2) {
+        constructionMethod = view.getUint16(q) & 0x0f;
+        q += 2;
+      }
+      q += 2; // data_reference_index
+      const baseOffset = readUint(q, baseOffsetSize);
+      q += baseOffsetSize;
+      const extentCount = view.getUint16(q);
+      q += 2;
+      const extents: Uint8Array[] = [];
+      for (let e = 0; e < extentCount; e++) {
+        q += indexSize;
+        const extentOffset = readUint(q, offsetSize);
+        q += offsetSize;
+        const extentLength = readUint(q, lengthSize);
+        q += lengthSize;
+        const start = baseOffset + extentOffset;
+        extents.push(bytes.subarray(start, start + extentLength));
+      }
+      // Only items stored directly in the file (construction method 0) are supported.
+      if (constructionMethod === 0 && extents.length > 0) {
+        itemData.set(itemId, extents.length === 1 ? extents[0] : concatBytes(extents));
+      }
+    }
+  }
+
+  for (const [itemId, type] of itemTypes) {
+    const data = itemData.get(itemId);
+    if (!data) continue;
+    if (type === 'Exif' && data.length > 4) {
+      const tiffOffset = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0);
+      metadata.exif = data.subarray(4 + tiffOffset);
+    } else if (type === 'mime:application/rdf+xml') {
+      metadata.xmp = data;
+    }
+  }
+
+  const iprp = children.find(b => b.type === 'iprp');
+  const ipco = iprp && readIsoBoxes(bytes, iprp.start, iprp.end).find(b => b.type === 'ipco');
+  if (ipco) {
+    metadata.hasNativeTransform = readIsoBoxes(bytes, ipco.start, ipco.end)
+      .some(b => b.type === 'irot' || b.type === 'imir');
+  }
+};
+
+export const readImageMetadata = (bytes: Uint8Array): ImageMetadata => {
+  const metadata: ImageMetadata = { exif: null, xmp: null, orientation: 1, hasNativeTransform: false };
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      readJpegMetadata(bytes, metadata);
+    } else if (startsWithAscii(bytes, 0, PNG_SIGNATURE)) {
+      readPngMetadata(bytes, metadata);
+    } else if (startsWithAscii(bytes, 4, 'ftyp')) {
+      readAvifMetadata(bytes, metadata);
+    }
+  } catch {
+    // Malformed metadata must never block the resize itself; treat it as absent.
+  }
+  if (metadata.exif) {
+    metadata.orientation = readExifOrientation(metadata.exif);
+  }
+  return metadata;
+};
+
+// Resets the source's Orientation tag to 1 in place so every browser decodes the raw,
+// unrotated pixels; the rotation is then applied explicitly. PNG chunk CRCs are refreshed.
+export const clearSourceOrientation = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  if (!metadata.exif || metadata.orientation === 1) return;
+  setExifOrientation(metadata.exif, 1);
+  if (!startsWithAscii(bytes, 0, PNG_SIGNATURE)) return;
+  const chunk = readPngChunks(bytes).find(c => c.type === 'eXIf');
+  if (!chunk || chunk.offset + 12 + chunk.data.length > bytes.length) return;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const crcOffset = chunk.offset + 8 + chunk.data.length;
+  view.setUint32(crcOffset, crc32(bytes.subarray(chunk.offset + 4, crcOffset)));
+};
+
+// --- Filtering -----------------------------------------------------------------------
+
+export interface RetainedMetadata {
+  exif: Uint8Array | null;
+  xmp: Uint8Array | null;
+}
+
+// Picks what survives under `policy`. The orientation is reset to 1 because the pixels
+// are already rotated, and the pixel dimensions are updated to the output size.
+// ICC profiles are never carried over: the canvas has already converted the pixels to sRGB.
+export const retainMetadata = (
+  metadata: ImageMetadata,
+  policy: MetadataPolicy,
+  width: number,
+  height: number,
+): RetainedMetadata => {
+  if (policy === 'strip' || (!metadata.exif && !metadata.xmp)) {
+    return { exif: null, xmp: null };
+  }
+  let exif: Uint8Array | null = null;
+  if (metadata.exif) {
+    exif = policy === 'safe' ? removeExifGps(metadata.exif) : metadata.exif.slice();
+    setExifOrientation(exif, 1);
+    setExifPixelDimensions(exif, width, height);
+  }
+  // XMP frequently duplicates the GPS position, so it is only kept with 'keep'.
+  const xmp = policy === 'keep' ? metadata.xmp : null;
+  return { exif, xmp };
+};
+
+export const retainedMetadataSize = (retained: RetainedMetadata) =>
+  (retained.exif ? retained.exif.length + 32 : 0) + (retained.xmp ? retained.xmp.length + 64 : 0);
+
+// --- Embedding -----------------------------------------------------------------------
+
+const JPEG_SEGMENT_MAX = 0xffff - 2;
+
+const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+  const length = payload.length + 2;
+  return concatBytes([new Uint8Array([0xff, marker, length >> 8, length & 0xff]), payload]);
+};
+
+const embedInJpeg = (bytes: Uint8Array, retained: RetainedMetadata): Uint8Array => {
+  const segments: Uint8Array[] = [];
+  if (retained.exif) {
+    const payload = concatBytes([encodeAscii('Exif\0\0'), retained.exif]);
+    if (payload.length <= JPEG_SEGMENT_MAX) segments.push(jpegSegment(0xe1, payload));
+  }
+  if (retained.xmp) {
+    const payload = concatBytes([encodeAscii(XMP_NAMESPACE + '\0'), retained.xmp]);
+    if (payload.length <= JPEG_SEGMENT_MAX) segments.push(jpegSegment(0xe1, payload));
+  }
+  // Insert after SOI and a leading JFIF APP0, if any.
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+  return concatBytes([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+};
+
+const embedInPng = (bytes: Uint8Array, retained: RetainedMetadata): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  if (retained.exif) chunks.push(pngChunk('eXIf', retained.exif));
+  if (retained.xmp) {
+    const header = encodeAscii(PNG_XMP_KEYWORD + '\0\0\0\0\0');
+    chunks.push(pngChunk('iTXt', concatBytes([header, retained.xmp])));
+  }
+  // Signature (8) + IHDR chunk (25).
+  const insertAt = 33;
+  return concatBytes([bytes.subarray(0, insertAt), ...chunks, bytes.subarray(insertAt)]);
+};
+
+const riffChunk = (fourcc: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length + (data.length & 1);
+  const chunk = new Uint8Array(8 + padded);
+  chunk.set(encodeAscii(fourcc), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const embedInWebp = (bytes: Uint8Array, retained: RetainedMetadata, width: number, height: number): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const firstType = readAscii(bytes, 12, 4);
+  let flags = 0;
+  let body: Uint8Array;
+  if (firstType === 'VP8X') {
+    flags = bytes[20];
+    body = bytes.subarray(30);
+  } else {
+    // Simple format: a VP8X header is required before metadata chunks can be added.
+    if (firstType === 'VP8L' && ((view.getUint32(21, true) >> 28) & 1)) flags |= 0x10;
+    body = bytes.subarray(12);
+  }
+  const trailing: Uint8Array[] = [];
+  if (retained.exif) {
+    flags |= 0x08;
+    trailing.push(riffChunk('EXIF', retained.exif));
+  }
+  if (retained.xmp) {
+    flags |= 0x04;
+    trailing.push(riffChunk('XMP ', retained.xmp));
+  }
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = flags;
+  const canvasWidth = width - 1;
+  const canvasHeight = height - 1;
+  vp8x.set([canvasWidth & 0xff, (canvasWidth >> 8) & 0xff, (canvasWidth >> 16) & 0xff], 4);
+  vp8x.set([canvasHeight & 0xff, (canvasHeight >> 8) & 0xff, (canvasHeight >> 16) & 0xff], 7);
+
+  const content = concatBytes([encodeAscii('WEBP'), riffChunk('VP8X', vp8x), body, ...trailing]);
+  const header = new Uint8Array(8);
+  header.set(encodeAscii('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, content.length, true);
+  return concatBytes([header, content]);
+};
+
+// Writes the retained metadata into an encoded image. Returns null when the output
+// format cannot carry it (AVIF and GIF from the canvas encoder).
+export const embedMetadata = async (
+  blob: Blob,
+  retained: RetainedMetadata,
+  width: number,
+  height: number,
+): Promise<Blob | null> => {
+  if (!retained.exif && !retained.xmp) return blob;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let output: Uint8Array;
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    output = embedInJpeg(bytes, retained);
+  } else if (startsWithAscii(bytes, 0, PNG_SIGNATURE)) {
+    output = embedInPng(bytes, retained);
+  } else if (startsWithAscii(bytes, 0, 'RIFF') && startsWithAscii(bytes, 8, 'WEBP')) {
+    output = embedInWebp(bytes, retained, width, height);
+  } else {
+    return null;
+  }
+  return new Blob([output as Uint8Array<ArrayBuffer>], { type: blob.type });
+};
+
+export const describeMetadata = (metadata: ImageMetadata): string => {
+  const parts: string[] = [];
+  if (metadata.exif) parts.push(`EXIF (${metadata.exif.length} bytes)`);
+  if (metadata.xmp) parts.push(`XMP (${metadata.xmp.length} bytes)`);
+  if (metadata.orientation !== 1) parts.push(`orientation ${metadata.orientation}`);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+};
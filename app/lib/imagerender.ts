@@ -0,0 +1,298 @@
+import { resamplePixels, type ResampleFilter } from "./resample";
+import { clampCrop, toPixelCrop, type RelativeCrop } from "./crop";
+
+// Canvas-level building blocks of the image pipeline. Usable on the main thread and in workers.
+
+export type ResizeMode = 'fit' | 'shrink' | 'contain' | 'cover' | 'stretch';
+
+export type ResizeAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export const resizeModes: { value: ResizeMode, label: string }[] = [
+  { value: 'fit', label: 'Fit (keep aspect ratio)' },
+  { value: 'shrink', label: 'Shrink only (never enlarge)' },
+  { value: 'contain', label: 'Contain (letterbox)' },
+  { value: 'cover', label: 'Cover (crop to fill)' },
+  { value: 'stretch', label: 'Stretch (ignore aspect ratio)' },
+];
+
+export const resizeAnchors: ResizeAnchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+// Rotation and flips applied after EXIF orientation and before crop and resize.
+export interface ImageTransform {
+  rotate: 0 | 90 | 180 | 270;
+  // Fine rotation in degrees (-45 to 45). The empty corners are cropped away.
+  straighten: number;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+}
+
+export const identityTransform: ImageTransform = {
+  rotate: 0,
+  straighten: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+};
+
+export const isIdentityTransform = (t: ImageTransform | undefined) =>
+  !t || (t.rotate === 0 && t.straighten === 0 && !t.flipHorizontal && !t.flipVertical);
+
+// Size after rotating; a straightened image shrinks to the largest rectangle of the
+// same aspect ratio that fits inside the rotated one.
+export const transformedSize = (
+  width: number,
+  height: number,
+  t: ImageTransform | undefined,
+): { width: number, height: number } => {
+  if (!t) return { width, height };
+  const swap = t.rotate === 90 || t.rotate === 270;
+  const w = swap ? height : width;
+  const h = swap ? width : height;
+  if (t.straighten === 0) return { width: w, height: h };
+  const angle = Math.abs(t.straighten) * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const scale = Math.min(w / (w * cos + h * sin), h / (w * sin + h * cos));
+  return { width: Math.max(1, Math.floor(w * scale)), height: Math.max(1, Math.floor(h * scale)) };
+};
+
+export interface ResizeTarget {
+  width: number | null;
+  height: number | null;
+  // Defaults to 'fit'. 'contain' and 'cover' need both width and height.
+  mode?: ResizeMode;
+  // Where the image sits inside the letterbox (contain) or which part is kept (cover).
+  anchor?: ResizeAnchor;
+  // Applied before resizing; width/height then refer to the cropped area.
+  // Relative, so it scales with each file of a batch.
+  crop?: RelativeCrop;
+  // Applied before the crop, which is given in transformed coordinates.
+  transform?: ImageTransform;
+}
+
+// Source rectangle (sx, sy, sw, sh) drawn into destination rectangle (dx, dy, dw, dh)
+// on a canvas of canvasWidth x canvasHeight.
+export interface ResizeGeometry {
+  canvasWidth: number;
+  canvasHeight: number;
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+}
+
+export const anchorFactors = (anchor: ResizeAnchor): { x: number, y: number } => {
+  const x = anchor.endsWith('left') ? 0 : anchor.endsWith('right') ? 1 : 0.5;
+  const y = anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5;
+  return { x, y };
+};
+
+export const computeResizeGeometry = (
+  sourceWidth: number,
+  sourceHeight: number,
+  options: ResizeTarget,
+): ResizeGeometry => {
+  if (options.crop) {
+    const crop = clampCrop(toPixelCrop(options.crop, sourceWidth, sourceHeight), sourceWidth, sourceHeight);
+    if (!crop) {
+      throw new Error(`Crop area lies outside the ${sourceWidth}x${sourceHeight} image`);
+    }
+    const inner = computeResizeGeometry(crop.width, crop.height, { ...options, crop: undefined });
+    return { ...inner, sx: inner.sx + crop.x, sy: inner.sy + crop.y };
+  }
+
+  const { width, height } = options;
+  const mode = options.mode ?? 'fit';
+  const anchor = anchorFactors(options.anchor ?? 'center');
+
+  const full: ResizeGeometry = {
+    canvasWidth: sourceWidth,
+    canvasHeight: sourceHeight,
+    sx: 0,
+    sy: 0,
+    sw: sourceWidth,
+    sh: sourceHeight,
+    dx: 0,
+    dy: 0,
+    dw: sourceWidth,
+    dh: sourceHeight,
+  };
+  if (!width && !height) return full;
+
+  const scaled = (scale: number): ResizeGeometry => {
+    const w = Math.max(1, Math.round(sourceWidth * scale));
+    const h = Math.max(1, Math.round(sourceHeight * scale));
+    return { ...full, canvasWidth: w, canvasHeight: h, dw: w, dh: h };
+  };
+
+  // With only one side given every mode falls back to proportional scaling.
+  if (!width || !height) {
+    const scale = width ? width / sourceWidth : (height || 0) / sourceHeight;
+    return scaled(mode === 'shrink' ? Math.min(scale, 1) : scale);
+  }
+
+  const fitScale = Math.min(width / sourceWidth, height / sourceHeight);
+  switch (mode) {
+    case 'stretch':
+      return { ...full, canvasWidth: width, canvasHeight: height, dw: width, dh: height };
+    case 'shrink':
+      return scaled(Math.min(fitScale, 1));
+    case 'contain': {
+      const dw = Math.max(1, Math.round(sourceWidth * fitScale));
+      const dh = Math.max(1, Math.round(sourceHeight * fitScale));
+      return {
+        ...full,
+        canvasWidth: width,
+        canvasHeight: height,
+        dx: Math.round((width - dw) * anchor.x),
+        dy: Math.round((height - dh) * anchor.y),
+        dw,
+        dh,
+      };
+    }
+    case 'cover': {
+      const coverScale = Math.max(width / sourceWidth, height / sourceHeight);
+      const sw = Math.min(sourceWidth, width / coverScale);
+      const sh = Math.min(sourceHeight, height / coverScale);
+      return {
+        canvasWidth: width,
+        canvasHeight: height,
+        sx: (sourceWidth - sw) * anchor.x,
+        sy: (sourceHeight - sh) * anchor.y,
+        sw,
+        sh,
+        dx: 0,
+        dy: 0,
+        dw: width,
+        dh: height,
+      };
+    }
+    case 'fit':
+    default:
+      return scaled(fitScale);
+  }
+};
+
+export const isIdentityGeometry = (g: ResizeGeometry, sourceWidth: number, sourceHeight: number) =>
+  g.canvasWidth === sourceWidth && g.canvasHeight === sourceHeight &&
+  g.sx === 0 && g.sy === 0 && g.sw === sourceWidth && g.sh === sourceHeight &&
+  g.dx === 0 && g.dy === 0 && g.dw === sourceWidth && g.dh === sourceHeight;
+
+const resampleBitmap = (
+  bitmap: ImageBitmap,
+  geometry: ResizeGeometry,
+  filter: Exclude<ResampleFilter, 'browser'>,
+): OffscreenCanvas => {
+  const sourceCanvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const sourceCtx = sourceCanvas.getContext('2d');
+  if (!sourceCtx) {
+    throw new Error('Could not get canvas context');
+  }
+  sourceCtx.drawImage(bitmap, 0, 0);
+  const source = sourceCtx.getImageData(0, 0, bitmap.width, bitmap.height);
+
+  const pixels = resamplePixels(
+    source,
+    geometry.sx, geometry.sy, geometry.sw, geometry.sh,
+    geometry.dw, geometry.dh,
+    filter,
+  );
+
+  const destCanvas = new OffscreenCanvas(geometry.dw, geometry.dh);
+  const destCtx = destCanvas.getContext('2d');
+  if (!destCtx) {
+    throw new Error('Could not get canvas context');
+  }
+  destCtx.putImageData(new ImageData(pixels, geometry.dw, geometry.dh), 0, 0);
+  return destCanvas;
+};
+
+// Draws the bitmap with the transform for an EXIF Orientation value (2-8).
+export const applyOrientation = async (bitmap: ImageBitmap, orientation: number): Promise<ImageBitmap> => {
+  const { width: w, height: h } = bitmap;
+  const swap = orientation >= 5;
+  const canvas = new OffscreenCanvas(swap ? h : w, swap ? w : h);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return createImageBitmap(canvas);
+};
+
+// Rotates, straightens and flips the bitmap. Flips act on the rotated result, as seen on screen.
+export const applyTransform = async (bitmap: ImageBitmap, t: ImageTransform): Promise<ImageBitmap> => {
+  const { width, height } = transformedSize(bitmap.width, bitmap.height, t);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(width / 2, height / 2);
+  ctx.scale(t.flipHorizontal ? -1 : 1, t.flipVertical ? -1 : 1);
+  ctx.rotate((t.rotate + t.straighten) * Math.PI / 180);
+  ctx.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+  bitmap.close();
+  return createImageBitmap(canvas);
+};
+
+// Draws `source` onto a new canvas according to `geometry`, filling the letterbox area
+// with `background` when given. With `opaque` the background goes under the whole image,
+// for formats without alpha where transparent pixels would otherwise turn black.
+export const renderResized = (
+  source: ImageBitmap,
+  geometry: ResizeGeometry,
+  filter: ResampleFilter,
+  background: string | null,
+  opaque = false,
+): OffscreenCanvas => {
+  const canvas = new OffscreenCanvas(geometry.canvasWidth, geometry.canvasHeight);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  if (background && (opaque || geometry.dw < geometry.canvasWidth || geometry.dh < geometry.canvasHeight)) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, geometry.canvasWidth, geometry.canvasHeight);
+  }
+
+  if (filter === 'browser') {
+    // Better quality resizing
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    ctx.drawImage(
+      source,
+      geometry.sx, geometry.sy, geometry.sw, geometry.sh,
+      geometry.dx, geometry.dy, geometry.dw, geometry.dh,
+    );
+  } else {
+    const resampled = resampleBitmap(source, geometry, filter);
+    // Draw instead of putImageData so the letterbox background is composited underneath.
+    ctx.drawImage(resampled, geometry.dx, geometry.dy);
+  }
+  return canvas;
+};
@@ -1,4 +1,28 @@
 import type { ImageExtensions } from "../commons/fileconst";
+import type { ResampleFilter } from "./resample";
+import {
+  computeResizeGeometry,
+  isIdentityGeometry,
+  applyOrientation,
+  applyTransform,
+  isIdentityTransform,
+  renderResized,
+  transformedSize,
+  type ImageTransform,
+  type ResizeTarget,
+} from "./imagerender";
+import {
+  readImageMetadata,
+  clearSourceOrientation,
+  retainMetadata,
+  retainedMetadataSize,
+  embedMetadata,
+  describeMetadata,
+  type MetadataPolicy,
+} from "./imagemetadata";
+import { detectAnimation, resizeAnimatedImage } from "./animatedimage";
+import { drawWatermark, isWatermarkActive, type WatermarkOptions } from "./watermark";
+import { describeSizedEncoding, encodeWithinSize } from "./qualitysearch";
 
 export const getImageSize = async (imageData: Blob): Promise<{ width: number, height: number }> => {
   return new Promise((resolve, reject) => {
@@ -15,76 +39,186 @@ export const getImageSize = async (imageData: Blob): Promise<{ width: number, he
   });
 };
 
+// Downscaled preview of the transform step, plus the full-size dimensions it would produce.
+export const renderTransformPreview = async (
+  imageData: Blob,
+  transform: ImageTransform,
+  maxSize = 1024,
+): Promise<{ blob: Blob, width: number, height: number }> => {
+  const full = await createImageBitmap(imageData);
+  const { width, height } = transformedSize(full.width, full.height, transform);
+  const scale = Math.min(1, maxSize / Math.max(full.width, full.height));
+  const small = await createImageBitmap(full, {
+    resizeWidth: Math.max(1, Math.round(full.width * scale)),
+    resizeHeight: Math.max(1, Math.round(full.height * scale)),
+    resizeQuality: 'medium',
+  });
+  full.close();
+  const transformed = await applyTransform(small, transform);
+  const canvas = new OffscreenCanvas(transformed.width, transformed.height);
+  canvas.getContext('2d')?.drawImage(transformed, 0, 0);
+  transformed.close();
+  return { blob: await canvas.convertToBlob({ type: 'image/png' }), width, height };
+};
+
+export interface ResizeOptions extends ResizeTarget {
+  // Letterbox fill for 'contain'. Empty or 'transparent' leaves the area transparent.
+  background?: string;
+  // Resampling filter. 'browser' (the default) uses the canvas' own smoothing.
+  filter?: ResampleFilter;
+  // Encoder quality (0-1) for lossy formats. Browser default when omitted.
+  quality?: number;
+  // Upper bound for the encoded size. The highest quality that fits is searched for.
+  maxBytes?: number;
+  // What happens to EXIF/XMP metadata. Defaults to 'strip'.
+  metadata?: MetadataPolicy;
+  // Drawn onto the output after resizing.
+  watermark?: WatermarkOptions;
+}
+
+const lossyExtensions: readonly ImageExtensions[] = ['jpg', 'jpeg', 'webp', 'avif'];
+
+export const isLossyImageExtension = (ext: ImageExtensions) => lossyExtensions.includes(ext);
+
+export const getImageMimeType = (ext: ImageExtensions): string => {
+  switch (ext) {
+    case 'png': return 'image/png';
+    case 'gif': return 'image/gif';
+    case 'avif': return 'image/avif';
+    case 'webp': return 'image/webp';
+    default: return 'image/jpeg';
+  }
+};
+
+const hasAlphaChannel = (ext: ImageExtensions) => ext !== 'jpg' && ext !== 'jpeg';
+
+// JPEG has no alpha channel, so an unfilled letterbox or transparent source would turn black.
+export const letterboxBackground = (options: ResizeOptions, ext: ImageExtensions): string | null =>
+  options.background && options.background !== 'transparent'
+    ? options.background
+    : hasAlphaChannel(ext) ? null : '#ffffff';
+
+const canvasToBlob = async (canvas: OffscreenCanvas, mimeType: string, quality?: number): Promise<Blob> => {
+  const blob = await canvas.convertToBlob({ type: mimeType, quality });
+  if (!blob) {
+    throw new Error("Canvas convertToBlob failed");
+  }
+  return blob;
+};
+
 export const resizeImage = async (
   imageData: Blob,
-  width: number | null,
-  height: number | null,
+  options: ResizeOptions,
   ext: ImageExtensions,
   onProgress: (message: string, percent?: number) => void,
 ): Promise<Blob | null> => {
   return new Promise(async (resolve, reject) => {
     try {
-      if (!width && !height) {
+      onProgress("Loading image...", 10);
+      const bytes = new Uint8Array(await imageData.arrayBuffer());
+      const metadata = readImageMetadata(bytes);
+      const policy = options.metadata ?? 'strip';
+      // AVIF irot/imir are honored by the decoder; EXIF orientation only applies without them.
+      const orientation = metadata.hasNativeTransform ? 1 : metadata.orientation;
+      onProgress(`Metadata: ${describeMetadata(metadata)}`, 15);
+
+      const reencode = (isLossyImageExtension(ext) && (options.quality !== undefined || options.maxBytes !== undefined))
+        || orientation !== 1
+        || !isIdentityTransform(options.transform)
+        || isWatermarkActive(options.watermark)
+        || (policy !== 'keep' && (metadata.exif !== null || metadata.xmp !== null));
+      if (!options.width && !options.height && !options.crop && !reencode) {
         resolve(imageData);
         return;
       }
 
-      onProgress("Loading image...", 10);
-      const img = new Image();
-      const loadPromise = new Promise<void>((res, rej) => {
-        img.onload = () => res();
-        img.onerror = (e) => rej(e);
-      });
-      img.src = URL.createObjectURL(imageData);
-      await loadPromise;
+      const animation = detectAnimation(bytes);
+      if (animation || ext === 'gif') {
+        onProgress(animation ? `Animated ${animation.toUpperCase()} detected` : 'Encoding GIF with ImageMagick...', 20);
+        const blob = await resizeAnimatedImage(bytes, animation ?? 'gif', options, onProgress);
+        onProgress("Conversion complete.", 100);
+        resolve(blob);
+        return;
+      }
+
+      clearSourceOrientation(bytes, metadata);
+      let bitmap = await createImageBitmap(new Blob([bytes], { type: imageData.type }));
+      if (orientation !== 1) {
+        onProgress(`Applying EXIF orientation ${orientation}...`, 20);
+        bitmap = await applyOrientation(bitmap, orientation);
+      }
+      if (options.transform && !isIdentityTransform(options.transform)) {
+        const { rotate, straighten, flipHorizontal, flipVertical } = options.transform;
+        const steps = [
+          rotate ? `rotate ${rotate}°` : '',
+          straighten ? `straighten ${straighten}°` : '',
+          flipHorizontal ? 'flip horizontal' : '',
+          flipVertical ? 'flip vertical' : '',
+        ].filter(Boolean);
+        onProgress(`Transform: ${steps.join(', ')}`, 25);
+        bitmap = await applyTransform(bitmap, options.transform);
+      }
 
-      const beforeWidth = img.width;
-      const beforeHeight = img.height;
+      const beforeWidth = bitmap.width;
+      const beforeHeight = bitmap.height;
       onProgress(`Original size: ${beforeWidth}x${beforeHeight}`, 30);
 
-      let afterWidth = width ? width : Math.floor((height || 0) * beforeWidth / beforeHeight);
-      let afterHeight = height ? height : Math.floor((width || 0) * beforeHeight / beforeWidth);
+      const geometry = computeResizeGeometry(beforeWidth, beforeHeight, options);
 
       // Keep original size if no resize needed
-      if ((!width && !height) || (width === beforeWidth && height === beforeHeight)) {
+      if (isIdentityGeometry(geometry, beforeWidth, beforeHeight) && !reencode) {
+         bitmap.close();
          resolve(imageData);
-         URL.revokeObjectURL(img.src);
          return;
       }
-      
-      onProgress(`Target size: ${afterWidth}x${afterHeight}`, 50);
-
-      const canvas = document.createElement('canvas');
-      canvas.width = afterWidth;
-      canvas.height = afterHeight;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        throw new Error('Could not get canvas context');
+
+      if (options.crop) {
+        onProgress(`Crop: ${Math.round(geometry.sw)}x${Math.round(geometry.sh)} at ${Math.round(geometry.sx)},${Math.round(geometry.sy)}`, 40);
       }
+      onProgress(`Target size: ${geometry.canvasWidth}x${geometry.canvasHeight} (${options.mode ?? 'fit'})`, 50);
 
-      // Better quality resizing
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
-      
-      ctx.drawImage(img, 0, 0, afterWidth, afterHeight);
+      const filter = options.filter ?? 'browser';
+      if (filter !== 'browser') {
+        onProgress(`Resampling with ${filter}...`, 60);
+      }
+      const canvas = renderResized(bitmap, geometry, filter, letterboxBackground(options, ext), !hasAlphaChannel(ext));
       onProgress("Drawing to canvas...", 70);
+      if (isWatermarkActive(options.watermark)) {
+        onProgress(`Applying ${options.watermark.kind} watermark...`, 72);
+        await drawWatermark(canvas, options.watermark);
+      }
+
+      bitmap.close();
+      const mimeType = getImageMimeType(ext);
+      const retained = retainMetadata(metadata, policy, geometry.canvasWidth, geometry.canvasHeight);
 
-      let mimeType = 'image/jpeg';
-      if (ext === 'png') mimeType = 'image/png';
-      if (ext === 'gif') mimeType = 'image/gif';
-      if (ext === 'avif') mimeType = 'image/avif';
-      // For jpg/jpeg, we can default to 0.9 quality, or make it configurable if needed.
-      // For now, let's stick to default.
-      
-      canvas.toBlob((blob) => {
-        URL.revokeObjectURL(img.src);
-        if (blob) {
-            onProgress("Conversion complete.", 100);
-            resolve(blob);
+      let blob: Blob;
+      if (options.maxBytes !== undefined && isLossyImageExtension(ext)) {
+        // Leave room for the metadata that is written back afterwards.
+        const budget = Math.max(1, options.maxBytes - retainedMetadataSize(retained));
+        const result = await encodeWithinSize(quality => canvasToBlob(canvas, mimeType, quality), budget, onProgress);
+        onProgress(describeSizedEncoding(result, options.maxBytes));
+        blob = result.blob;
+      } else {
+        const quality = isLossyImageExtension(ext) ? options.quality : undefined;
+        blob = await canvasToBlob(canvas, mimeType, quality);
+        if (quality !== undefined) {
+          onProgress(`Quality: ${Math.round(quality * 100)}`);
+        }
+      }
+
+      if (retained.exif || retained.xmp) {
+        const withMetadata = await embedMetadata(blob, retained, geometry.canvasWidth, geometry.canvasHeight);
+        if (withMetadata) {
+          blob = withMetadata;
+          onProgress(`Metadata kept (${policy === 'safe' ? 'GPS removed' : 'all'}).`);
         } else {
-            reject(new Error("Canvas toBlob failed"));
+          onProgress(`Warning: ${ext.toUpperCase()} output cannot carry metadata; it was stripped.`);
         }
-      }, mimeType);
+      }
+
+      onProgress("Conversion complete.", 100);
+      resolve(blob);
 
     } catch (error) {
       reject(error);
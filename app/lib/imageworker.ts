@@ -0,0 +1,31 @@
+import { resizeImage, type ResizeOptions } from "./imageutils";
+import type { ImageExtensions } from "../commons/fileconst";
+
+export interface ImageWorkerRequest {
+  id: number;
+  imageData: Blob;
+  options: ResizeOptions;
+  ext: ImageExtensions;
+}
+
+export type ImageWorkerResponse =
+  | { id: number, type: 'progress', message: string, percent?: number }
+  | { id: number, type: 'done', blob: Blob | null }
+  | { id: number, type: 'error', message: string };
+
+const post = (response: ImageWorkerResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<ImageWorkerRequest>) => {
+  const { id, imageData, options, ext } = event.data;
+  try {
+    const blob = await resizeImage(
+      imageData,
+      options,
+      ext,
+      (message, percent) => post({ id, type: 'progress', message, percent }),
+    );
+    post({ id, type: 'done', blob });
+  } catch (err) {
+    post({ id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,125 @@
+import { resizeImage, type ResizeOptions } from "./imageutils";
+import type { ImageWorkerRequest, ImageWorkerResponse } from "./imageworker";
+import type { ImageExtensions } from "../commons/fileconst";
+
+type ProgressCallback = (message: string, percent?: number) => void;
+
+interface PoolJob {
+  request: ImageWorkerRequest;
+  onProgress: ProgressCallback;
+  resolve: (blob: Blob | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: PoolJob | null;
+}
+
+export const defaultImageConcurrency = (): number => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+};
+
+let concurrency = defaultImageConcurrency();
+let nextJobId = 1;
+const workers: PoolWorker[] = [];
+const queue: PoolJob[] = [];
+
+export const isImageWorkerSupported = (): boolean =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+const createPoolWorker = (): PoolWorker => {
+  const entry: PoolWorker = {
+    worker: new Worker(new URL('./imageworker.ts', import.meta.url), { type: 'module' }),
+    job: null,
+  };
+  entry.worker.onmessage = (event: MessageEvent<ImageWorkerResponse>) => {
+    const job = entry.job;
+    if (!job || job.request.id !== event.data.id) return;
+    const response = event.data;
+    if (response.type === 'progress') {
+      job.onProgress(response.message, response.percent);
+      return;
+    }
+    entry.job = null;
+    if (workers.length > concurrency) {
+      entry.worker.terminate();
+      workers.splice(workers.indexOf(entry), 1);
+    }
+    if (response.type === 'done') {
+      job.resolve(response.blob);
+    } else {
+      job.reject(new Error(response.message));
+    }
+    dispatch();
+  };
+  entry.worker.onerror = (event: ErrorEvent) => {
+    const job = entry.job;
+    entry.job = null;
+    // A crashed worker cannot be trusted with the next job.
+    entry.worker.terminate();
+    workers.splice(workers.indexOf(entry), 1);
+    job?.reject(new Error(event.message || 'Image worker crashed'));
+    dispatch();
+  };
+  return entry;
+};
+
+const dispatch = () => {
+  while (queue.length > 0) {
+    let idle = workers.find(w => w.job === null);
+    if (!idle && workers.length < concurrency) {
+      idle = createPoolWorker();
+      workers.push(idle);
+    }
+    if (!idle) return;
+
+    const job = queue.shift()!;
+    idle.job = job;
+    job.onProgress(`Started on worker ${workers.indexOf(idle) + 1}/${concurrency}`, 0);
+    idle.worker.postMessage(job.request);
+  }
+};
+
+export const setImageConcurrency = (value: number) => {
+  concurrency = Math.max(1, Math.floor(value));
+  // Shrink lazily: surplus idle workers are dropped now, busy ones when they finish their job.
+  for (let i = workers.length - 1; i >= 0 && workers.length > concurrency; i--) {
+    if (workers[i].job === null) {
+      workers[i].worker.terminate();
+      workers.splice(i, 1);
+    }
+  }
+  dispatch();
+};
+
+export const terminateImageWorkers = () => {
+  queue.splice(0).forEach(job => job.reject(new Error('Image processing was cancelled')));
+  workers.splice(0).forEach(({ worker, job }) => {
+    worker.terminate();
+    job?.reject(new Error('Image processing was cancelled'));
+  });
+};
+
+// Queue a resize on the worker pool. Falls back to the calling thread when workers or
+// OffscreenCanvas are unavailable.
+export const resizeImageInWorker = (
+  imageData: Blob,
+  options: ResizeOptions,
+  ext: ImageExtensions,
+  onProgress: ProgressCallback,
+): Promise<Blob | null> => {
+  if (!isImageWorkerSupported()) {
+    return resizeImage(imageData, options, ext, onProgress);
+  }
+  return new Promise((resolve, reject) => {
+    queue.push({
+      request: { id: nextJobId++, imageData, options, ext },
+      onProgress,
+      resolve,
+      reject,
+    });
+    dispatch();
+  });
+};
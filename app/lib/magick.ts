@@ -0,0 +1,204 @@
+import type { IMagickImage, IMagickImageCollection } from "@imagemagick/magick-wasm";
+import type { ResampleFilter } from "./resample";
+import { applyEncoderOptions, type EncoderOptions } from "./encoderoptions";
+
+// Promise-based access to ImageMagick. The package and its WebAssembly binary are loaded
+// on first use and shared by every caller in the same thread; everything here works in
+// a worker as well as on the page.
+
+export type Magick = typeof import('@imagemagick/magick-wasm');
+
+let magickLoader: Promise<Magick> | null = null;
+
+export const loadMagick = (): Promise<Magick> => {
+  if (!magickLoader) {
+    magickLoader = import('@imagemagick/magick-wasm')
+      .then(async (magick) => {
+        await magick.initializeImageMagick(new URL(import.meta.env.BASE_URL + 'assets/libs/3rd-party/imagemagick/magick.wasm', self.location.origin));
+        return magick;
+      })
+      .catch((err) => {
+        // Allow a retry after a failed download.
+        magickLoader = null;
+        throw new Error(`Failed to initialize ImageMagick: ${errorMessage(err)}`);
+      });
+  }
+  return magickLoader;
+};
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err)) || 'Unknown error';
+
+// Runs `task` once ImageMagick is ready and rethrows its errors with what was being done.
+const withMagick = async <T>(action: string, task: (magick: Magick) => T | Promise<T>): Promise<T> => {
+  const magick = await loadMagick();
+  try {
+    return await task(magick);
+  } catch (err) {
+    throw new Error(`ImageMagick could not ${action}: ${errorMessage(err)}`);
+  }
+};
+
+// Target formats by file extension.
+export const magickFormatOf = (magick: Magick, extension: string) => {
+  const { MagickFormat } = magick;
+  const formats: Record<string, Magick['MagickFormat'][keyof Magick['MagickFormat']]> = {
+    jpg: MagickFormat.Jpeg,
+    jpeg: MagickFormat.Jpeg,
+    png: MagickFormat.Png,
+    gif: MagickFormat.Gif,
+    avif: MagickFormat.Avif,
+    webp: MagickFormat.WebP,
+    bmp: MagickFormat.Bmp,
+    jp2: MagickFormat.Jp2,
+    tif: MagickFormat.Tiff,
+    tiff: MagickFormat.Tiff,
+  };
+  const format = formats[extension];
+  if (!format) {
+    throw new Error(`Unsupported target format: ${extension}`);
+  }
+  return format;
+};
+
+export const mimeTypeOf = (extension: string) => {
+  switch (extension) {
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'tif':
+      return 'image/tiff';
+    default:
+      return `image/${extension}`;
+  }
+};
+
+const writeBlob = (magick: Magick, image: IMagickImage, extension: string): Blob =>
+  image.write(magickFormatOf(magick, extension), (data) => new Blob([new Uint8Array(data)], { type: mimeTypeOf(extension) }));
+
+export interface ImageInfo {
+  // ImageMagick's name for the decoded format, e.g. "JPEG" or "TIFF".
+  format: string;
+  width: number;
+  height: number;
+  frameCount: number;
+  hasAlpha: boolean;
+}
+
+export const readImageInfo = (data: Uint8Array): Promise<ImageInfo> =>
+  withMagick('read the image', ({ ImageMagick }) =>
+    ImageMagick.readCollection(data, (images) => ({
+      format: images[0].format,
+      width: images[0].width,
+      height: images[0].height,
+      frameCount: images.length,
+      hasAlpha: images[0].hasAlpha,
+    })),
+  );
+
+export interface ConvertOptions {
+  encoder?: EncoderOptions;
+  // Also return a JPEG copy, for formats the browser cannot display (TIFF, JP2).
+  jpegPreview?: boolean;
+}
+
+export interface ConvertedImage {
+  blob: Blob;
+  preview?: Blob;
+  width: number;
+  height: number;
+}
+
+// Converts the first frame of `data` to the format given by its file extension.
+export const convertImage = (data: Uint8Array, extension: string, options: ConvertOptions = {}): Promise<ConvertedImage> =>
+  withMagick(`convert the image to ${extension.toUpperCase()}`, (magick) =>
+    magick.ImageMagick.read(data, (image) => {
+      if (options.encoder) {
+        applyEncoderOptions(magick, image, extension, options.encoder);
+      }
+      const blob = writeBlob(magick, image, extension);
+      const preview = options.jpegPreview ? writeBlob(magick, image, 'jpg') : undefined;
+      return { blob, preview, width: image.width, height: image.height };
+    }),
+  );
+
+export interface MagickResizeOptions {
+  width: number | null;
+  height: number | null;
+  filter?: ResampleFilter;
+  // Output file extension; defaults to PNG.
+  format?: string;
+}
+
+export const filterTypeOf = (magick: Magick, filter: ResampleFilter) => {
+  const { FilterType } = magick;
+  switch (filter) {
+    case 'lanczos3': return FilterType.Lanczos;
+    case 'bicubic': return FilterType.Catrom;
+    case 'bilinear': return FilterType.Triangle;
+    case 'box': return FilterType.Box;
+    case 'nearest': return FilterType.Point;
+    default: return undefined;
+  }
+};
+
+// Scales the first frame to fit inside width x height, keeping the aspect ratio.
+// A missing side follows from the other one.
+export const resizeImageWithMagick = (data: Uint8Array, options: MagickResizeOptions): Promise<ConvertedImage> =>
+  withMagick('resize the image', (magick) =>
+    magick.ImageMagick.read(data, (image) => {
+      const width = options.width ?? Math.max(1, Math.round(image.width * (options.height ?? image.height) / image.height));
+      const height = options.height ?? Math.max(1, Math.round(image.height * width / image.width));
+      const size = new magick.MagickGeometry(width, height);
+      const filterType = filterTypeOf(magick, options.filter ?? 'browser');
+      if (filterType === undefined) {
+        image.resize(size);
+      } else {
+        image.resize(size, filterType);
+      }
+      const blob = writeBlob(magick, image, options.format ?? 'png');
+      return { blob, width: image.width, height: image.height };
+    }),
+  );
+
+export interface FrameEditor {
+  magick: Magick;
+  // Every frame at full size; delta frames are already coalesced.
+  frames: IMagickImageCollection;
+  // Encodes the frames as they are now. Can be called repeatedly, e.g. to search for a quality.
+  write: (extension: string, quality?: number) => Blob;
+}
+
+// Runs `edit` on all frames of `data`. The frames are released when the returned promise settles.
+export const editFrames = <T>(data: Uint8Array, action: string, edit: (editor: FrameEditor) => T | Promise<T>): Promise<T> =>
+  withMagick(action, (magick) =>
+    magick.ImageMagick.readCollection(data, async (frames) => {
+      frames.coalesce();
+      const write = (extension: string, quality?: number) => {
+        if (quality !== undefined) {
+          frames.forEach(frame => { frame.quality = Math.round(quality * 100); });
+        }
+        return frames.write(magickFormatOf(magick, extension), (bytes) =>
+          new Blob([new Uint8Array(bytes)], { type: mimeTypeOf(extension) }));
+      };
+      return edit({ magick, frames, write });
+    }),
+  );
+
+export interface ImageFrame {
+  blob: Blob;
+  width: number;
+  height: number;
+  delayMs: number;
+}
+
+// Every frame as a full-size image (delta frames are coalesced), PNG by default.
+export const readFrames = (data: Uint8Array, extension = 'png'): Promise<ImageFrame[]> =>
+  editFrames(data, 'read the frames', ({ magick, frames }) =>
+    frames.map(image => ({
+      blob: writeBlob(magick, image, extension),
+      width: image.width,
+      height: image.height,
+      // Delays are stored in ticks per second, 1/100 s unless set otherwise.
+      delayMs: Math.round(image.animationDelay * 1000 / (image.animationTicksPerSecond || 100)),
+    })),
+  );
@@ -0,0 +1,86 @@
+// Limits how much decoded data is held in memory while a batch is processed.
+// Each task declares an estimate up front and waits until it fits in the shared budget.
+
+const MB = 1024 * 1024;
+
+export interface MemoryQueue {
+  run: <T>(estimatedBytes: number, task: () => Promise<T>) => Promise<T>;
+  setBudget: (budgetBytes: number) => void;
+}
+
+export const createMemoryQueue = (budgetBytes: number): MemoryQueue => {
+  let budget = budgetBytes;
+  let inUse = 0;
+  let running = 0;
+  const waiting: { bytes: number, start: () => void }[] = [];
+
+  // Admit in order. A task larger than the whole budget still runs, but only on its own.
+  const admit = () => {
+    while (waiting.length > 0 && (running === 0 || inUse + waiting[0].bytes <= budget)) {
+      const next = waiting.shift()!;
+      inUse += next.bytes;
+      running++;
+      next.start();
+    }
+  };
+
+  const run = <T>(estimatedBytes: number, task: () => Promise<T>): Promise<T> =>
+    new Promise<void>(resolve => {
+      waiting.push({ bytes: estimatedBytes, start: resolve });
+      admit();
+    }).then(task).finally(() => {
+      inUse -= estimatedBytes;
+      running--;
+      admit();
+    });
+
+  const setBudget = (budgetBytes: number) => {
+    budget = budgetBytes;
+    admit();
+  };
+
+  return { run, setBudget };
+};
+
+// A quarter of the device memory reported by the browser, within 256 MB - 1.5 GB.
+// navigator.deviceMemory is Chromium-only; other browsers get 512 MB.
+export const defaultMemoryBudget = (): number => {
+  const deviceMemory = typeof navigator !== 'undefined'
+    ? (navigator as Navigator & { deviceMemory?: number }).deviceMemory
+    : undefined;
+  if (!deviceMemory) return 512 * MB;
+  return Math.min(1536 * MB, Math.max(256 * MB, deviceMemory * 1024 * MB / 4));
+};
+
+// Decoded RGBA source, the working canvas copies and the encoded input itself.
+export const estimateImageMemory = (file: Blob, width?: number, height?: number): number => {
+  const pixels = width && height ? width * height : file.size * 10; // ~10 px per byte for unknown JPEGs
+  return pixels * 4 * 3 + file.size;
+};
+
+// ffmpeg.wasm keeps the input and the output in its in-memory file system and
+// buffers a few dozen YUV 4:2:0 frames while encoding.
+export const estimateVideoMemory = (file: Blob, width?: number, height?: number): number => {
+  const frameBytes = width && height ? width * height * 1.5 : 1920 * 1080 * 1.5;
+  return file.size * 2 + frameBytes * 32;
+};
+
+export const formatMegabytes = (bytes: number): string => `${(bytes / MB).toFixed(bytes < 10 * MB ? 1 : 0)} MB`;
+
+// Like Promise.all over items.map(fn), with at most `limit` calls in flight.
+export const mapWithConcurrency = async <T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
@@ -0,0 +1,145 @@
+import { resizeAnchors, resizeModes, type ResizeAnchor, type ResizeMode } from "./imagerender";
+
+// Named sets of settings. Built-in presets ship with the app; user presets live in
+// localStorage per tool and can be shared as a JSON file.
+
+export type PresetTool = 'image' | 'video';
+
+export interface Preset<T> {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  settings: T;
+}
+
+export interface ImagePresetSettings {
+  width: number | null;
+  height: number | null;
+  mode: ResizeMode;
+  anchor: ResizeAnchor;
+  // 1-100, applies to lossy output.
+  quality?: number;
+}
+
+// Video resizing takes either a width or a height; the other side follows the aspect ratio.
+export interface VideoPresetSettings {
+  width: number | null;
+  height: number | null;
+  fps: number | null;
+}
+
+export interface PresetFile<T> {
+  version: 1;
+  tool: PresetTool;
+  presets: { name: string, settings: T }[];
+}
+
+const imagePreset = (id: string, name: string, width: number, height: number): Preset<ImagePresetSettings> => ({
+  id, name, builtIn: true, settings: { width, height, mode: 'cover', anchor: 'center' },
+});
+
+export const builtInImagePresets: Preset<ImagePresetSettings>[] = [
+  imagePreset('instagram-post', 'Instagram post (1080x1080)', 1080, 1080),
+  imagePreset('instagram-portrait', 'Instagram portrait (1080x1350)', 1080, 1350),
+  imagePreset('instagram-story', 'Instagram story (1080x1920)', 1080, 1920),
+  imagePreset('x-header', 'X header (1500x500)', 1500, 500),
+  imagePreset('youtube-thumbnail', 'YouTube thumbnail (1280x720)', 1280, 720),
+  imagePreset('open-graph', 'Open Graph card (1200x630)', 1200, 630),
+];
+
+export const builtInVideoPresets: Preset<VideoPresetSettings>[] = [
+  { id: '480p', name: '480p', builtIn: true, settings: { width: null, height: 480, fps: null } },
+  { id: '720p', name: '720p', builtIn: true, settings: { width: null, height: 720, fps: null } },
+  { id: '720p30', name: '720p, 30 fps', builtIn: true, settings: { width: null, height: 720, fps: 30 } },
+  { id: '1080p', name: '1080p', builtIn: true, settings: { width: null, height: 1080, fps: null } },
+  { id: 'story-video', name: 'Story video (1080 wide, 30 fps)', builtIn: true, settings: { width: 1080, height: null, fps: 30 } },
+];
+
+const positiveOrNull = (value: unknown): number | null | undefined => {
+  if (value === null || value === undefined || value === '') return null;
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+};
+
+// Settings from storage or an imported file; null when they do not describe a usable preset.
+export const sanitizeImagePresetSettings = (raw: unknown): ImagePresetSettings | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const r = raw as Record<string, unknown>;
+  const width = positiveOrNull(r.width);
+  const height = positiveOrNull(r.height);
+  const mode = resizeModes.find(m => m.value === r.mode)?.value ?? 'fit';
+  const anchor = resizeAnchors.find(a => a === r.anchor) ?? 'center';
+  if (width === undefined || height === undefined || (width === null && height === null)) return null;
+  if ((mode === 'contain' || mode === 'cover') && (width === null || height === null)) return null;
+  const quality = typeof r.quality === 'number' && r.quality >= 1 && r.quality <= 100 ? Math.round(r.quality) : undefined;
+  return { width, height, mode, anchor, quality };
+};
+
+export const sanitizeVideoPresetSettings = (raw: unknown): VideoPresetSettings | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const r = raw as Record<string, unknown>;
+  const width = positiveOrNull(r.width);
+  const height = positiveOrNull(r.height);
+  const fps = positiveOrNull(r.fps);
+  if (width === undefined || height === undefined || fps === undefined) return null;
+  if (width !== null && height !== null) return null;
+  if (width === null && height === null && fps === null) return null;
+  return { width, height, fps };
+};
+
+const storageKey = (tool: PresetTool) => `presets:${tool}`;
+
+export const newPresetId = () => `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Entries that no longer validate, e.g. after a settings change, are dropped.
+export const loadUserPresets = <T>(tool: PresetTool, sanitize: (raw: unknown) => T | null): Preset<T>[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(tool)) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(entry => {
+      const settings = sanitize(entry?.settings);
+      return settings && typeof entry.name === 'string' && typeof entry.id === 'string'
+        ? [{ id: entry.id, name: entry.name, settings }]
+        : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserPresets = <T>(tool: PresetTool, presets: Preset<T>[]) => {
+  localStorage.setItem(storageKey(tool), JSON.stringify(presets.map(({ id, name, settings }) => ({ id, name, settings }))));
+};
+
+export const exportPresets = <T>(tool: PresetTool, presets: Preset<T>[]): string => {
+  const file: PresetFile<T> = {
+    version: 1,
+    tool,
+    presets: presets.map(({ name, settings }) => ({ name, settings })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Reads an exported preset file. Throws with a message suitable for the UI.
+export const parsePresetFile = <T>(text: string, tool: PresetTool, sanitize: (raw: unknown) => T | null): Preset<T>[] => {
+  let file: Partial<PresetFile<unknown>>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The preset file is not valid JSON.');
+  }
+  if (file?.version !== 1 || !Array.isArray(file.presets)) {
+    throw new Error('This is not a preset file.');
+  }
+  if (file.tool !== tool) {
+    throw new Error(`This preset file is for the ${file.tool} tool, not the ${tool} tool.`);
+  }
+  const presets = file.presets.flatMap(entry => {
+    const settings = sanitize(entry?.settings);
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    return settings && name ? [{ id: newPresetId(), name, settings }] : [];
+  });
+  if (presets.length === 0) {
+    throw new Error('The preset file contains no usable presets.');
+  }
+  return presets;
+};
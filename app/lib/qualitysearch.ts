@@ -0,0 +1,47 @@
+// Finding the encoder quality that meets a file size target. Shared by the canvas
+// pipeline and the ImageMagick path for animated images.
+
+export interface SizedEncoding {
+  blob: Blob;
+  quality: number;
+  fits: boolean;
+}
+
+const MIN_SEARCH_QUALITY = 0.05;
+const QUALITY_SEARCH_STEPS = 7;
+
+// Binary search for the highest quality (0-1) whose output fits in maxBytes.
+// Falls back to the smallest tried quality when nothing fits.
+export const encodeWithinSize = async (
+  encode: (quality: number) => Blob | Promise<Blob>,
+  maxBytes: number,
+  onProgress: (message: string, percent?: number) => void,
+): Promise<SizedEncoding> => {
+  let best: { blob: Blob, quality: number } | null = null;
+  let low = MIN_SEARCH_QUALITY;
+  let high = 1;
+
+  const smallest = await encode(low);
+  if (smallest.size > maxBytes) {
+    return { blob: smallest, quality: low, fits: false };
+  }
+  best = { blob: smallest, quality: low };
+
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = (low + high) / 2;
+    const blob = await encode(quality);
+    onProgress(`Trying quality ${Math.round(quality * 100)}: ${(blob.size / 1024).toFixed(1)} KB`, 70 + Math.round((step + 1) / QUALITY_SEARCH_STEPS * 25));
+    if (blob.size <= maxBytes) {
+      best = { blob, quality };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  return { ...best, fits: true };
+};
+
+export const describeSizedEncoding = (result: SizedEncoding, maxBytes: number) =>
+  result.fits
+    ? `Selected quality: ${Math.round(result.quality * 100)} (${(result.blob.size / 1024).toFixed(1)} KB)`
+    : `Warning: even quality ${Math.round(result.quality * 100)} is ${(result.blob.size / 1024).toFixed(1)} KB, over the ${(maxBytes / 1024).toFixed(0)} KB target.`;
@@ -0,0 +1,190 @@
+// Deterministic, browser-independent image resampling.
+// Works on RGBA pixel buffers with a separable two-pass convolution in premultiplied alpha.
+
+export type ResampleFilter = 'browser' | 'lanczos3' | 'bicubic' | 'bilinear' | 'box' | 'nearest';
+
+export const resampleFilters: { value: ResampleFilter, label: string }[] = [
+  { value: 'lanczos3', label: 'Lanczos3 (sharpest)' },
+  { value: 'bicubic', label: 'Bicubic' },
+  { value: 'bilinear', label: 'Bilinear' },
+  { value: 'box', label: 'Box (area average)' },
+  { value: 'nearest', label: 'Nearest neighbor (pixel art)' },
+  { value: 'browser', label: 'Browser default' },
+];
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+interface Kernel {
+  support: number;
+  weight: (x: number) => number;
+}
+
+const sinc = (x: number) => {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+};
+
+const kernels: Record<Exclude<ResampleFilter, 'browser' | 'nearest'>, Kernel> = {
+  box: {
+    support: 0.5,
+    weight: (x) => (x >= -0.5 && x < 0.5 ? 1 : 0),
+  },
+  bilinear: {
+    support: 1,
+    weight: (x) => {
+      const ax = Math.abs(x);
+      return ax < 1 ? 1 - ax : 0;
+    },
+  },
+  // Catmull-Rom (a = -0.5)
+  bicubic: {
+    support: 2,
+    weight: (x) => {
+      const ax = Math.abs(x);
+      if (ax < 1) return 1.5 * ax * ax * ax - 2.5 * ax * ax + 1;
+      if (ax < 2) return -0.5 * ax * ax * ax + 2.5 * ax * ax - 4 * ax + 2;
+      return 0;
+    },
+  },
+  lanczos3: {
+    support: 3,
+    weight: (x) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0),
+  },
+};
+
+// For every destination pixel along one axis: the first source index and normalized weights.
+interface Contributions {
+  start: Int32Array;
+  count: Int32Array;
+  weights: Float32Array;
+  maxCount: number;
+}
+
+const computeContributions = (
+  sourceSize: number,
+  offset: number,
+  span: number,
+  destSize: number,
+  filter: Exclude<ResampleFilter, 'browser'>,
+): Contributions => {
+  const scale = span / destSize;
+  const start = new Int32Array(destSize);
+  const count = new Int32Array(destSize);
+
+  if (filter === 'nearest') {
+    const weights = new Float32Array(destSize).fill(1);
+    for (let i = 0; i < destSize; i++) {
+      start[i] = Math.min(sourceSize - 1, Math.max(0, Math.floor(offset + (i + 0.5) * scale)));
+      count[i] = 1;
+    }
+    return { start, count, weights, maxCount: 1 };
+  }
+
+  const kernel = kernels[filter];
+  // Widen the kernel when downscaling so every source pixel contributes.
+  const filterScale = Math.max(1, scale);
+  const support = kernel.support * filterScale;
+  const maxCount = Math.ceil(support * 2) + 1;
+  const weights = new Float32Array(destSize * maxCount);
+
+  for (let i = 0; i < destSize; i++) {
+    const center = offset + (i + 0.5) * scale;
+    const first = Math.max(0, Math.floor(center - support));
+    const last = Math.min(sourceSize - 1, Math.ceil(center + support) - 1);
+    let total = 0;
+    let n = 0;
+    for (let j = first; j <= last && n < maxCount; j++, n++) {
+      const w = kernel.weight((j + 0.5 - center) / filterScale);
+      weights[i * maxCount + n] = w;
+      total += w;
+    }
+    if (total !== 0) {
+      for (let k = 0; k < n; k++) weights[i * maxCount + k] /= total;
+    }
+    start[i] = first;
+    count[i] = n;
+  }
+  return { start, count, weights, maxCount };
+};
+
+// Resample the source rectangle (sx, sy, sw, sh) of `source` to destWidth x destHeight.
+export const resamplePixels = (
+  source: PixelBuffer,
+  sx: number,
+  sy: number,
+  sw: number,
+  sh: number,
+  destWidth: number,
+  destHeight: number,
+  filter: Exclude<ResampleFilter, 'browser'>,
+): Uint8ClampedArray<ArrayBuffer> => {
+  const src = source.data;
+  const horizontal = computeContributions(source.width, sx, sw, destWidth, filter);
+  const vertical = computeContributions(source.height, sy, sh, destHeight, filter);
+
+  // Only the source rows that feed the vertical pass are filtered horizontally.
+  let rowStart = source.height;
+  let rowEnd = 0;
+  for (let y = 0; y < destHeight; y++) {
+    rowStart = Math.min(rowStart, vertical.start[y]);
+    rowEnd = Math.max(rowEnd, vertical.start[y] + vertical.count[y]);
+  }
+  const rows = Math.max(0, rowEnd - rowStart);
+
+  // Horizontal pass into premultiplied float rows.
+  const temp = new Float32Array(destWidth * rows * 4);
+  for (let row = 0; row < rows; row++) {
+    const srcRow = (rowStart + row) * source.width * 4;
+    const tempRow = row * destWidth * 4;
+    for (let x = 0; x < destWidth; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      const first = horizontal.start[x];
+      const base = x * horizontal.maxCount;
+      for (let k = 0; k < horizontal.count[x]; k++) {
+        const w = horizontal.weights[base + k];
+        const p = srcRow + (first + k) * 4;
+        const wa = w * src[p + 3];
+        r += src[p] * wa;
+        g += src[p + 1] * wa;
+        b += src[p + 2] * wa;
+        a += wa;
+      }
+      const t = tempRow + x * 4;
+      temp[t] = r;
+      temp[t + 1] = g;
+      temp[t + 2] = b;
+      temp[t + 3] = a;
+    }
+  }
+
+  // Vertical pass, then back to straight alpha.
+  const out = new Uint8ClampedArray(destWidth * destHeight * 4);
+  for (let y = 0; y < destHeight; y++) {
+    const first = vertical.start[y] - rowStart;
+    const base = y * vertical.maxCount;
+    for (let x = 0; x < destWidth; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < vertical.count[y]; k++) {
+        const w = vertical.weights[base + k];
+        const t = ((first + k) * destWidth + x) * 4;
+        r += temp[t] * w;
+        g += temp[t + 1] * w;
+        b += temp[t + 2] * w;
+        a += temp[t + 3] * w;
+      }
+      const o = (y * destWidth + x) * 4;
+      if (a > 0) {
+        out[o] = Math.round(r / a);
+        out[o + 1] = Math.round(g / a);
+        out[o + 2] = Math.round(b / a);
+        out[o + 3] = Math.round(a);
+      }
+    }
+  }
+  return out;
+};
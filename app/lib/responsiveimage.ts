@@ -0,0 +1,143 @@
+import type { ImageExtensions } from "../commons/fileconst";
+import type { ResampleFilter } from "./resample";
+import type { MetadataPolicy } from "./imagemetadata";
+import { getImageMimeType, type ResizeOptions } from "./imageutils";
+import { detectAnimation } from "./animatedimage";
+import { resizeImageInWorker } from "./imageworkerpool";
+
+// Builds a ladder of widths in several formats from one upload, plus the
+// <picture> markup and a JSON manifest describing the generated files.
+
+export type ResponsiveFormat = Extract<ImageExtensions, 'avif' | 'webp' | 'jpg'>;
+
+// Ordered by preference: browsers pick the first <source> they support.
+export const responsiveFormats: { value: ResponsiveFormat, label: string }[] = [
+  { value: 'avif', label: 'AVIF' },
+  { value: 'webp', label: 'WebP' },
+  { value: 'jpg', label: 'JPEG (fallback)' },
+];
+
+export const defaultWidthLadder = [320, 640, 960, 1280, 1920];
+
+export interface ResponsiveSetOptions {
+  widths: number[];
+  formats: ResponsiveFormat[];
+  quality: number;
+  filter?: ResampleFilter;
+  metadata?: MetadataPolicy;
+}
+
+export interface ResponsiveVariant {
+  format: ResponsiveFormat;
+  width: number;
+  height: number;
+  fileName: string;
+  blob: Blob;
+}
+
+export interface SnippetOptions {
+  alt: string;
+  sizes: string;
+  // Prepended to every file name, e.g. "/images/".
+  pathPrefix: string;
+}
+
+// Parses "320, 640 960" into sorted, de-duplicated positive integers.
+export const parseWidthList = (text: string): number[] =>
+  [...new Set(text.split(/[\s,]+/).map(w => parseInt(w, 10)).filter(w => Number.isFinite(w) && w > 0))]
+    .sort((a, b) => a - b);
+
+// Widths above the source would only upscale; they collapse into the source width.
+export const planWidths = (widths: number[], sourceWidth: number): number[] => {
+  const planned = widths.filter(w => w < sourceWidth);
+  if (planned.length < widths.length) planned.push(sourceWidth);
+  return planned;
+};
+
+export const variantFileName = (baseName: string, width: number, format: ResponsiveFormat) =>
+  `${baseName}-${width}w.${format}`;
+
+export const generateResponsiveSet = async (
+  file: File,
+  sourceWidth: number,
+  baseName: string,
+  options: ResponsiveSetOptions,
+  onProgress: (message: string, percent?: number) => void,
+): Promise<ResponsiveVariant[]> => {
+  if (detectAnimation(new Uint8Array(await file.arrayBuffer()))) {
+    throw new Error('Animated images are not supported for responsive sets.');
+  }
+  const widths = planWidths(options.widths, sourceWidth);
+  const jobs = options.formats.flatMap(format => widths.map(width => ({ format, width })));
+  let finished = 0;
+  onProgress(`Generating ${jobs.length} file(s): ${widths.join(', ')}px in ${options.formats.join(', ')}`, 0);
+
+  // The worker pool limits how many run at once.
+  return Promise.all(jobs.map(async ({ format, width }) => {
+    const resizeOptions: ResizeOptions = {
+      width,
+      height: null,
+      mode: 'fit',
+      filter: options.filter,
+      quality: options.quality,
+      metadata: options.metadata,
+    };
+    const fileName = variantFileName(baseName, width, format);
+    const blob = await resizeImageInWorker(file, resizeOptions, format, () => {});
+    if (!blob) {
+      throw new Error(`Failed to generate ${fileName}`);
+    }
+    // Canvas encoders silently fall back to PNG for types they cannot write.
+    if (blob.type !== getImageMimeType(format)) {
+      throw new Error(`This browser cannot encode ${format.toUpperCase()}. Deselect it and try again.`);
+    }
+    const bitmap = await createImageBitmap(blob);
+    const variant = { format, width: bitmap.width, height: bitmap.height, fileName, blob };
+    bitmap.close();
+    finished++;
+    onProgress(`${fileName}: ${variant.width}x${variant.height}, ${(blob.size / 1024).toFixed(1)} KB`, Math.round(finished / jobs.length * 100));
+    return variant;
+  }));
+};
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+export const buildPictureSnippet = (variants: ResponsiveVariant[], options: SnippetOptions): string => {
+  const formats = responsiveFormats.map(f => f.value).filter(f => variants.some(v => v.format === f));
+  if (formats.length === 0) return '';
+  const srcset = (format: ResponsiveFormat) => variants
+    .filter(v => v.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map(v => `${escapeAttribute(options.pathPrefix + v.fileName)} ${v.width}w`)
+    .join(', ');
+  const sizes = escapeAttribute(options.sizes);
+
+  // The least preferred format doubles as the <img> fallback; its largest size is the src.
+  const fallback = formats[formats.length - 1];
+  const largest = variants.filter(v => v.format === fallback).reduce((a, b) => (b.width > a.width ? b : a));
+  const img = `<img src="${escapeAttribute(options.pathPrefix + largest.fileName)}" srcset="${srcset(fallback)}" sizes="${sizes}" width="${largest.width}" height="${largest.height}" alt="${escapeAttribute(options.alt)}" loading="lazy" decoding="async">`;
+  if (formats.length === 1) return img;
+
+  const sources = formats.slice(0, -1).map(format =>
+    `  <source type="${getImageMimeType(format)}" srcset="${srcset(format)}" sizes="${sizes}">`
+  );
+  return ['<picture>', ...sources, `  ${img}`, '</picture>'].join('\n');
+};
+
+export const buildManifest = (
+  source: { name: string, width: number, height: number, bytes: number },
+  variants: ResponsiveVariant[],
+  options: SnippetOptions,
+): string => JSON.stringify({
+  source,
+  sizes: options.sizes,
+  variants: variants.map(v => ({
+    file: options.pathPrefix + v.fileName,
+    format: v.format,
+    type: getImageMimeType(v.format),
+    width: v.width,
+    height: v.height,
+    bytes: v.blob.size,
+  })),
+}, null, 2);
@@ -0,0 +1,32 @@
+// In/out points in seconds, shared by the trim timeline and the ffmpeg job.
+
+export interface TrimRange {
+  start: number;
+  end: number;
+}
+
+// Shortest selectable excerpt, so the handles cannot cross.
+export const MIN_TRIM_LENGTH = 0.1;
+
+// "1:05.3", or "1:02:05.3" for clips of an hour or more.
+export const formatTimecode = (seconds: number) => {
+  const tenths = Math.max(0, Math.round(seconds * 10));
+  const h = Math.floor(tenths / 36000);
+  const m = Math.floor(tenths / 600) % 60;
+  const s = (tenths % 600) / 10;
+  const ss = s.toFixed(1).padStart(4, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${ss}` : `${m}:${ss}`;
+};
+
+// Fits the range into a clip of `duration` seconds.
+// Returns null when nothing of it is left, e.g. a range from a longer file in the batch.
+export const clampTrim = (range: TrimRange, duration: number): TrimRange | null => {
+  const start = Math.max(0, range.start);
+  const end = Math.min(duration, range.end);
+  if (end - start < MIN_TRIM_LENGTH) return null;
+  return { start, end };
+};
+
+// True when the range keeps the whole clip, so nothing needs to be cut.
+export const isFullRange = (range: TrimRange, duration: number) =>
+  range.start <= 0.05 && range.end >= duration - 0.05;
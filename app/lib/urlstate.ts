@@ -0,0 +1,62 @@
+import { useEffect } from "react";
+import { useSearchParams } from "react-router";
+
+// Tool settings mirrored in the query string, so a link or a reload opens the page
+// configured the same way. Values equal to the page defaults are left out of the URL.
+
+export type UrlValue = string | number | boolean | null | undefined;
+
+// Positive integer, or '' (the "auto" value of the number inputs) when missing or invalid.
+export const readIntParam = (params: URLSearchParams, key: string, min = 1, max = Number.MAX_SAFE_INTEGER): number | '' => {
+  const raw = params.get(key);
+  if (raw === null || !/^\d+$/.test(raw)) return '';
+  const value = parseInt(raw, 10);
+  return value >= min && value <= max ? value : '';
+};
+
+export const readNumberParam = (params: URLSearchParams, key: string, fallback: number, min: number, max: number): number => {
+  const value = readIntParam(params, key, min, max);
+  return value === '' ? fallback : value;
+};
+
+export const readEnumParam = <T extends string>(params: URLSearchParams, key: string, allowed: readonly T[], fallback: T): T => {
+  const raw = params.get(key);
+  return allowed.find(value => value === raw) ?? fallback;
+};
+
+// Comma-separated subset of `allowed`, e.g. "avif,webp". Falls back when nothing valid is left.
+export const readListParam = <T extends string>(params: URLSearchParams, key: string, allowed: readonly T[], fallback: T[]): T[] => {
+  const raw = params.get(key);
+  if (raw === null) return fallback;
+  const values = raw.split(',').map(v => v.trim());
+  const valid = allowed.filter(value => values.includes(value));
+  return valid.length > 0 ? valid : fallback;
+};
+
+const serialize = (value: UrlValue): string | null => {
+  if (value === null || value === undefined || value === '' || value === false) return null;
+  return value === true ? '1' : String(value);
+};
+
+// Writes `values` into the query string whenever they change. Pass null, undefined or ''
+// for values that should not appear, e.g. because they match the default.
+export const useSyncSearchParams = (values: Record<string, UrlValue>) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const entries = Object.entries(values).map(([key, value]) => [key, serialize(value)] as const);
+  const signature = JSON.stringify(entries);
+
+  useEffect(() => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of entries) {
+      if (value === null) {
+        next.delete(key);
+      } else {
+        next.set(key, value);
+      }
+    }
+    if (next.toString() !== searchParams.toString()) {
+      // Replace, so adjusting a slider does not fill the history with entries.
+      setSearchParams(next, { replace: true, preventScrollReset: true });
+    }
+  }, [signature, searchParams]); // eslint-disable-line react-hooks/exhaustive-deps
+};
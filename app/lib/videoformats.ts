@@ -0,0 +1,330 @@
+// Output containers and the codecs each one can carry, limited to the encoders built into
+// the bundled ffmpeg core (libx264, libvpx, libopus, libvorbis, libmp3lame and native AAC).
+
+export type VideoContainer = 'mp4' | 'webm' | 'mov';
+export type VideoCodec = 'h264' | 'vp8' | 'vp9';
+export type AudioCodec = 'aac' | 'mp3' | 'opus' | 'vorbis';
+export type RateControlMode = 'crf' | 'bitrate' | 'size';
+export type EncoderSpeed = 'fastest' | 'fast' | 'balanced' | 'slow';
+export type AudioExtractFormat = 'mp3' | 'aac' | 'wav' | 'opus';
+
+export interface VideoRateControl {
+  mode: RateControlMode;
+  // Constant quality, lower is better; the scale depends on the codec (see crfRanges).
+  crf: number;
+  bitrateKbps: number;
+  // Upper limit for the whole file in 'size' mode, in MB (1024 * 1024 bytes).
+  targetSizeMB: number;
+  speed: EncoderSpeed;
+}
+
+// Sound track settings; null keeps what the source (or the encoder default) has.
+export interface AudioSettings {
+  // Drop the sound track from the video. Extraction still uses the settings below.
+  strip: boolean;
+  bitrateKbps: number | null;
+  channels: number | null;
+  sampleRate: number | null;
+  // EBU R128 loudness normalization to `loudnessTarget` LUFS.
+  normalize: boolean;
+  loudnessTarget: number;
+}
+
+export interface VideoOutputOptions {
+  container: VideoContainer;
+  videoCodec: VideoCodec;
+  audioCodec: AudioCodec;
+  rate: VideoRateControl;
+  audio: AudioSettings;
+}
+
+interface ContainerInfo {
+  label: string;
+  mimeType: string;
+  // First entry is the default for the container.
+  videoCodecs: VideoCodec[];
+  audioCodecs: AudioCodec[];
+}
+
+export const videoContainers: Record<VideoContainer, ContainerInfo> = {
+  mp4: { label: 'MP4', mimeType: 'video/mp4', videoCodecs: ['h264', 'vp9'], audioCodecs: ['aac', 'mp3'] },
+  webm: { label: 'WebM', mimeType: 'video/webm', videoCodecs: ['vp9', 'vp8'], audioCodecs: ['opus', 'vorbis'] },
+  mov: { label: 'MOV (QuickTime)', mimeType: 'video/quicktime', videoCodecs: ['h264'], audioCodecs: ['aac', 'mp3'] },
+};
+
+// Formats for the separately downloadable sound track.
+export const audioExtractFormats: Record<AudioExtractFormat, { label: string, extension: string, mimeType: string, encoder: string }> = {
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', encoder: 'libmp3lame' },
+  aac: { label: 'AAC (.m4a)', extension: 'm4a', mimeType: 'audio/mp4', encoder: 'aac' },
+  wav: { label: 'WAV', extension: 'wav', mimeType: 'audio/wav', encoder: 'pcm_s16le' },
+  opus: { label: 'Opus', extension: 'opus', mimeType: 'audio/ogg', encoder: 'libopus' },
+};
+
+export const audioExtractFormatNames = Object.keys(audioExtractFormats) as AudioExtractFormat[];
+
+export const videoContainerNames = Object.keys(videoContainers) as VideoContainer[];
+
+export const videoCodecs: Record<VideoCodec, { label: string, encoder: string }> = {
+  h264: { label: 'H.264', encoder: 'libx264' },
+  vp9: { label: 'VP9', encoder: 'libvpx-vp9' },
+  vp8: { label: 'VP8', encoder: 'libvpx' },
+};
+
+export const audioCodecs: Record<AudioCodec, { label: string, encoder: string }> = {
+  aac: { label: 'AAC', encoder: 'aac' },
+  mp3: { label: 'MP3', encoder: 'libmp3lame' },
+  opus: { label: 'Opus', encoder: 'libopus' },
+  vorbis: { label: 'Vorbis', encoder: 'libvorbis' },
+};
+
+export const rateControlModes: { value: RateControlMode, label: string }[] = [
+  { value: 'crf', label: 'Constant quality (CRF)' },
+  { value: 'bitrate', label: 'Fixed bitrate' },
+  { value: 'size', label: 'Fit under file size' },
+];
+
+export const encoderSpeeds: { value: EncoderSpeed, label: string }[] = [
+  { value: 'fastest', label: 'Fastest (larger files)' },
+  { value: 'fast', label: 'Fast' },
+  { value: 'balanced', label: 'Balanced' },
+  { value: 'slow', label: 'Slow (smaller files)' },
+];
+
+export const crfRanges: Record<VideoCodec, { min: number, max: number, default: number }> = {
+  h264: { min: 0, max: 51, default: 23 },
+  vp9: { min: 0, max: 63, default: 32 },
+  vp8: { min: 4, max: 63, default: 10 },
+};
+
+// Common upload limits, in MB.
+export const targetSizePresets = [8, 10, 25, 50, 100];
+
+// Audio bitrate reserved when fitting a clip with sound under a target size.
+export const TARGET_SIZE_AUDIO_KBPS = 128;
+// Below this the picture falls apart, so the target is reported as unreachable instead.
+const MIN_TARGET_VIDEO_KBPS = 50;
+
+export const defaultRateControl: VideoRateControl = {
+  mode: 'crf',
+  crf: crfRanges.h264.default,
+  bitrateKbps: 2000,
+  targetSizeMB: 25,
+  speed: 'balanced',
+};
+
+export const audioBitrates = [64, 96, 128, 160, 192, 256, 320];
+export const audioSampleRates = [48000, 44100, 32000, 24000, 22050, 16000];
+// libopus only encodes at these rates.
+const opusSampleRates = [48000, 24000, 16000, 12000, 8000];
+
+export const loudnessTargets: { value: number, label: string }[] = [
+  { value: -23, label: '-23 LUFS (EBU R128, broadcast)' },
+  { value: -16, label: '-16 LUFS (web video, podcasts)' },
+  { value: -14, label: '-14 LUFS (music streaming)' },
+];
+
+export const defaultAudioSettings: AudioSettings = {
+  strip: false,
+  bitrateKbps: null,
+  channels: null,
+  sampleRate: null,
+  normalize: false,
+  loudnessTarget: -23,
+};
+
+export const defaultVideoOutput: VideoOutputOptions = {
+  container: 'mp4',
+  videoCodec: 'h264',
+  audioCodec: 'aac',
+  rate: defaultRateControl,
+  audio: defaultAudioSettings,
+};
+
+// Switches the video codec; the CRF scale differs per codec, so it starts over at the default.
+export const withVideoCodec = (output: VideoOutputOptions, videoCodec: VideoCodec): VideoOutputOptions =>
+  videoCodec === output.videoCodec
+    ? output
+    : { ...output, videoCodec, rate: { ...output.rate, crf: crfRanges[videoCodec].default } };
+
+// Switches the container and replaces codecs it cannot carry with its defaults.
+export const withContainer = (output: VideoOutputOptions, container: VideoContainer): VideoOutputOptions => {
+  const info = videoContainers[container];
+  const next = withVideoCodec(output, info.videoCodecs.includes(output.videoCodec) ? output.videoCodec : info.videoCodecs[0]);
+  return {
+    ...next,
+    container,
+    audioCodec: info.audioCodecs.includes(output.audioCodec) ? output.audioCodec : info.audioCodecs[0],
+  };
+};
+
+export const isValidVideoOutput = (output: VideoOutputOptions) =>
+  videoContainers[output.container].videoCodecs.includes(output.videoCodec)
+  && videoContainers[output.container].audioCodecs.includes(output.audioCodec);
+
+// True when the encoder would run with its default quality and speed.
+export const isDefaultRateControl = (output: VideoOutputOptions) =>
+  output.rate.mode === 'crf'
+  && output.rate.crf === crfRanges[output.videoCodec].default
+  && output.rate.speed === defaultRateControl.speed;
+
+// True when the sound track is left as the encoder would make it by default.
+export const isDefaultAudio = (audio: AudioSettings) =>
+  !audio.strip && audio.bitrateKbps === null && audio.channels === null && audio.sampleRate === null && !audio.normalize;
+
+export const targetSizeBytes = (rate: VideoRateControl) => rate.targetSizeMB * 1024 * 1024;
+
+// Video bitrate that makes `durationSec` seconds of video plus audio fit in the target size.
+export const targetVideoBitrate = (rate: VideoRateControl, durationSec: number, audioKbps: number): number => {
+  // Leave a little room for the container's own overhead.
+  const totalKbps = targetSizeBytes(rate) * 8 * 0.97 / durationSec / 1000;
+  const videoKbps = Math.floor(totalKbps - audioKbps);
+  if (videoKbps < MIN_TARGET_VIDEO_KBPS) {
+    throw new Error(`${rate.targetSizeMB} MB is too small for ${durationSec.toFixed(1)} s of video. Trim the clip or raise the target.`);
+  }
+  return videoKbps;
+};
+
+// True when a file with extension `ext` can be passed through unchanged: same container,
+// and the codecs are the container defaults rather than an explicit choice.
+export const matchesVideoOutput = (ext: string, output: VideoOutputOptions) => {
+  const info = videoContainers[output.container];
+  return ext === output.container
+    && output.videoCodec === info.videoCodecs[0]
+    && output.audioCodec === info.audioCodecs[0];
+};
+
+const x264Presets: Record<EncoderSpeed, string> = {
+  fastest: 'ultrafast',
+  fast: 'veryfast',
+  balanced: 'medium',
+  slow: 'slow',
+};
+
+const vpxCpuUsed: Record<EncoderSpeed, number> = {
+  fastest: 8,
+  fast: 6,
+  balanced: 4,
+  slow: 2,
+};
+
+// Video encoder arguments for ffmpeg. `videoKbps` replaces the rate control with a fixed
+// bitrate, as computed for the passes of a target-size encode.
+export const videoEncoderArgs = (output: VideoOutputOptions, videoKbps?: number): string[] => {
+  const { rate } = output;
+  const args = ['-c:v', videoCodecs[output.videoCodec].encoder];
+  const kbps = videoKbps ?? (rate.mode === 'bitrate' ? rate.bitrateKbps : undefined);
+
+  if (output.videoCodec === 'h264') {
+    // Keep 4:2:0 so browsers and phones can play it, whatever the source used.
+    args.push('-pix_fmt', 'yuv420p', '-preset', x264Presets[rate.speed]);
+    args.push(...(kbps !== undefined ? ['-b:v', `${kbps}k`] : ['-crf', String(rate.crf)]));
+    return args;
+  }
+
+  args.push('-deadline', rate.speed === 'fastest' ? 'realtime' : 'good', '-cpu-used', String(vpxCpuUsed[rate.speed]));
+  if (kbps !== undefined) {
+    args.push('-b:v', `${kbps}k`);
+  } else {
+    // libvpx defaults to a very low bitrate; with -b:v 0 VP9 is constant quality, while VP8
+    // needs the bitrate as a ceiling.
+    args.push('-crf', String(rate.crf), '-b:v', output.videoCodec === 'vp9' ? '0' : '8M');
+  }
+  return args;
+};
+
+// Audio encoder and filter arguments for `encoder`. `bitrateKbps` overrides the settings,
+// as reserved for the sound track of a target-size encode.
+export const audioEncoderArgs = (encoder: string, audio: AudioSettings, bitrateKbps?: number): string[] => {
+  const args = ['-c:a', encoder];
+  const kbps = bitrateKbps ?? audio.bitrateKbps;
+  // PCM has a fixed bitrate.
+  if (kbps !== null && !encoder.startsWith('pcm_')) args.push('-b:a', `${kbps}k`);
+  if (audio.channels !== null) args.push('-ac', String(audio.channels));
+  // loudnorm works at 192 kHz internally, so pick a normal rate instead of keeping that one.
+  let sampleRate = audio.sampleRate ?? (audio.normalize ? 48000 : null);
+  if (sampleRate !== null && encoder === 'libopus' && !opusSampleRates.includes(sampleRate)) sampleRate = 48000;
+  if (sampleRate !== null) args.push('-ar', String(sampleRate));
+  if (audio.normalize) args.push('-af', `loudnorm=I=${audio.loudnessTarget}:TP=-1.5:LRA=11`);
+  return args;
+};
+
+// Full encoder and muxer arguments for the output file.
+export const videoOutputArgs = (output: VideoOutputOptions, options: { videoKbps?: number, audioKbps?: number } = {}): string[] => {
+  const args = [
+    ...videoEncoderArgs(output, options.videoKbps),
+    ...(output.audio.strip ? ['-an'] : audioEncoderArgs(audioCodecs[output.audioCodec].encoder, output.audio, options.audioKbps)),
+  ];
+  if (output.container !== 'webm') {
+    // Put the index first so the file can start playing before it is fully loaded.
+    args.push('-movflags', '+faststart');
+  }
+  return args;
+};
+
+// Animated image output: GIF through a generated palette, or lossy animated WebP.
+
+export type AnimationFormat = 'gif' | 'webp';
+export type PaletteDither = 'sierra2_4a' | 'floyd_steinberg' | 'bayer' | 'none';
+
+export interface AnimationOptions {
+  // GIF only.
+  dither: PaletteDither;
+  // How often the animation plays; 0 loops forever.
+  plays: number;
+  // WebP only, 0-100.
+  quality: number;
+}
+
+export const animationFormats: Record<AnimationFormat, { label: string, mimeType: string }> = {
+  gif: { label: 'Animated GIF', mimeType: 'image/gif' },
+  webp: { label: 'Animated WebP', mimeType: 'image/webp' },
+};
+
+export const animationFormatNames = Object.keys(animationFormats) as AnimationFormat[];
+
+export const paletteDithers: { value: PaletteDither, label: string }[] = [
+  { value: 'sierra2_4a', label: 'Sierra Lite (smooth)' },
+  { value: 'floyd_steinberg', label: 'Floyd-Steinberg' },
+  { value: 'bayer', label: 'Bayer (ordered, smaller files)' },
+  { value: 'none', label: 'None (banding, smallest)' },
+];
+
+// Used when no FPS is given; full frame rate animations get very large.
+export const ANIMATION_DEFAULT_FPS = 15;
+
+export const defaultAnimationOptions: AnimationOptions = {
+  dither: 'sierra2_4a',
+  plays: 0,
+  quality: 75,
+};
+
+// Frame rate and scaling shared by both palette passes; lanczos keeps text in screen recordings sharp.
+export const animationFilters = (width: number | null, height: number | null, fps: number | null) => {
+  const filters = [`fps=${fps ?? ANIMATION_DEFAULT_FPS}`];
+  if (width) filters.push(`scale=${width}:-1:flags=lanczos`);
+  else if (height) filters.push(`scale=-1:${height}:flags=lanczos`);
+  return filters.join(',');
+};
+
+// paletteuse options; only changed rectangles are dithered again, which keeps static areas
+// of screen recordings from flickering.
+export const paletteUseOptions = (dither: PaletteDither) =>
+  `dither=${dither}${dither === 'bayer' ? ':bayer_scale=3' : ''}:diff_mode=rectangle`;
+
+// The muxers count differently: GIF stores extra repeats (-1 = play once), WebP the number of plays.
+export const animationLoopArg = (format: AnimationFormat, plays: number) =>
+  String(format === 'gif' ? (plays === 0 ? 0 : plays === 1 ? -1 : plays - 1) : plays);
+
+// Rough output size range in bytes, from typical bytes per pixel and frame: low for screen
+// recordings with little motion, high for camera footage.
+export const estimateAnimationSize = (
+  format: AnimationFormat,
+  width: number,
+  height: number,
+  fps: number,
+  durationSec: number,
+): { min: number, max: number } => {
+  const pixelFrames = width * height * fps * durationSec;
+  const [low, high] = format === 'gif' ? [0.05, 0.4] : [0.02, 0.15];
+  return { min: pixelFrames * low, max: pixelFrames * high };
+};
@@ -4,39 +4,166 @@ import type { LogEvent } from '@ffmpeg/ffmpeg/dist/esm/types';
 import { fetchFile, toBlobURL } from "@ffmpeg/util";
 
 import type { VideoExtensions } from "../commons/fileconst";
+import type { TrimRange } from "./trim";
+import {
+  animationFilters,
+  animationFormats,
+  animationLoopArg,
+  audioEncoderArgs,
+  audioExtractFormats,
+  isDefaultAudio,
+  isDefaultRateControl,
+  matchesVideoOutput,
+  paletteUseOptions,
+  TARGET_SIZE_AUDIO_KBPS,
+  targetSizeBytes,
+  targetVideoBitrate,
+  videoContainers,
+  videoEncoderArgs,
+  videoOutputArgs,
+  type AnimationFormat,
+  type AnimationOptions,
+  type AudioExtractFormat,
+  type AudioSettings,
+  type VideoOutputOptions,
+} from "./videoformats";
 
 // const baseURL = '/assets/libs/3rd-party/ffmpeg/0.12.9-mt';
 const baseURL = import.meta.env.BASE_URL + 'assets/libs/3rd-party/ffmpeg/0.12.10';
 // const baseURL = 'https://app.unpkg.com/@ffmpeg/core-mt@0.12.9/files/dist/esm/';
 const ffmpeg = new FFmpeg();
 
-export const getVideoSize = async (videoData: Blob): Promise<{ width: number, height: number }> => {
-  return new Promise((resolve) => {
+// Two-pass statistics; x264 adds "<name>-0.log.mbtree" next to the log.
+const passLogName = 'passlog';
+const passLogFiles = [`${passLogName}-0.log`, `${passLogName}-0.log.mbtree`];
+
+export const getVideoInfo = async (videoData: Blob): Promise<{ width: number, height: number, duration: number }> => {
+  return new Promise((resolve, reject) => {
     const video = document.createElement('video');
+    video.preload = 'metadata';
     video.src = URL.createObjectURL(videoData);
-    video.addEventListener('progress', () => {
+    video.addEventListener('error', () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error('The browser cannot read this video.'));
+    });
+    video.addEventListener('loadedmetadata', () => {
       resolve({
         width: video.videoWidth,
         height: video.videoHeight,
+        // Infinity for some streamed recordings without a duration header.
+        duration: Number.isFinite(video.duration) ? video.duration : 0,
       });
+      // Release the source so probing a large batch does not keep every file mapped.
+      URL.revokeObjectURL(video.src);
+      video.removeAttribute('src');
+      video.load();
     });
   });
 }
 
+export const getVideoSize = async (videoData: Blob): Promise<{ width: number, height: number }> => {
+  const { width, height } = await getVideoInfo(videoData);
+  return { width, height };
+}
+
+// Frames evenly spread over the clip as JPEG data URLs, `height` pixels high, for a timeline strip.
+export const captureVideoThumbnails = async (videoData: Blob, count: number, height: number): Promise<string[]> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = URL.createObjectURL(videoData);
+
+  const waitFor = (event: 'loadedmetadata' | 'seeked') => new Promise<void>((resolve, reject) => {
+    const onError = () => {
+      video.removeEventListener(event, onDone);
+      reject(new Error('The browser cannot read this video.'));
+    };
+    const onDone = () => {
+      video.removeEventListener('error', onError);
+      resolve();
+    };
+    video.addEventListener(event, onDone, { once: true });
+    video.addEventListener('error', onError, { once: true });
+  });
+
+  try {
+    await waitFor('loadedmetadata');
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    if (duration <= 0 || video.videoWidth === 0) return [];
+
+    const canvas = document.createElement('canvas');
+    canvas.height = height;
+    canvas.width = Math.max(1, Math.round(video.videoWidth * height / video.videoHeight));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return [];
+
+    const thumbnails: string[] = [];
+    for (let i = 0; i < count; i++) {
+      // Middle of each slot, so the first thumbnail is not a black fade-in frame.
+      video.currentTime = (i + 0.5) * duration / count;
+      await waitFor('seeked');
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      thumbnails.push(canvas.toDataURL('image/jpeg', 0.7));
+    }
+    return thumbnails;
+  } finally {
+    URL.revokeObjectURL(video.src);
+    video.removeAttribute('src');
+    video.load();
+  }
+}
+
+const loadFFmpeg = async () => {
+  if (!ffmpeg.loaded) {
+    await ffmpeg.load({
+      coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
+      wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
+      // workerURL: await toBlobURL(`${baseURL}/ffmpeg-core.worker.js`, 'text/javascript')
+    });
+  }
+};
+
+// Seeking on the input is fast, and exact because the excerpt is re-encoded.
+const trimArgs = (trim: TrimRange | null) => (trim ? ['-ss', trim.start.toFixed(3), '-to', trim.end.toFixed(3)] : []);
+
+// Reads the duration and whether there is a sound track from ffmpeg's description of the input.
+const probeInput = async (inputFilename: string): Promise<{ duration: number, hasAudio: boolean }> => {
+  const lines: string[] = [];
+  const onLog = ({ message }: LogEvent) => lines.push(message);
+  ffmpeg.on('log', onLog);
+  try {
+    // Fails for lack of an output file, after printing the input header.
+    await ffmpeg.exec(['-hide_banner', '-i', inputFilename]);
+  } finally {
+    ffmpeg.off('log', onLog);
+  }
+  const log = lines.join('\n');
+  const match = /Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/.exec(log);
+  return {
+    duration: match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : 0,
+    hasAudio: /Stream #\S+.*: Audio:/.test(log),
+  };
+};
+
 export const resizeVideo = async (
   videoData: Blob,
   width: number | null,
   height: number | null,
   fps: number | null,
+  trim: TrimRange | null,
+  output: VideoOutputOptions,
   ext: VideoExtensions,
   onProgress: (message: string, percent?: number) => void, 
 ): Promise<Blob | null> => {
-  if (!width && !height && !fps) return videoData;
+  // Pass the file through untouched when nothing would change, or when it already fits the target size.
+  const fitsAlready = output.rate.mode === 'size' && videoData.size <= targetSizeBytes(output.rate);
+  const keepFormat = matchesVideoOutput(ext, output) && isDefaultAudio(output.audio) && (isDefaultRateControl(output) || fitsAlready);
+  if (!width && !height && !fps && !trim && keepFormat) return videoData;
 
   const { width: beforeWidth, height: beforeHeight } = await getVideoSize(videoData);
   onProgress(`${beforeWidth}: ${beforeHeight}`);
 
-  if (!fps) {
+  if (!fps && !trim && keepFormat) {
     if (beforeWidth === width && (beforeHeight === height || !height)) return videoData;
     if (beforeHeight === height && (beforeWidth === width || !width)) return videoData;
   }
@@ -46,32 +173,170 @@ export const resizeVideo = async (
   let afterHeight = height ? height : Math.floor((width || 0) * (beforeHeight / beforeWidth));
   if (afterHeight % 2 !== 0) afterHeight += 1;
 
+  const onLog = ({ message: msg }: LogEvent) => {
+    onProgress(msg);
+  };
+  const inputFilename = 'tmp.' + ext;
+  const outputFilename = 'tmp_output.' + output.container;
+
   try {
-    ffmpeg.on('log', ({ message: msg }: LogEvent) => {
-      onProgress(msg);
-    });
+    ffmpeg.on('log', onLog);
 
-    if (!ffmpeg.loaded) {
-      await ffmpeg.load({
-        coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-        wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-        // workerURL: await toBlobURL(`${baseURL}/ffmpeg-core.worker.js`, 'text/javascript')
-      });
-    }
+    await loadFFmpeg();
 
-    const inputFilename = 'tmp.' + ext;
-    const outputFilename = 'tmp_output.mp4';
-    let vfOpt = `scale=${afterWidth}:${afterHeight}`;
-    if (afterWidth % 2 !== 0 || afterHeight % 2 !== 0) vfOpt = `${vfOpt},format=yuv444p`;
-    if (fps) vfOpt = `${vfOpt},fps=${fps}`;
+    const filters: string[] = [];
+    if (width || height) {
+      filters.push(`scale=${afterWidth}:${afterHeight}`);
+    } else if (output.videoCodec === 'h264') {
+      // yuv420p needs even dimensions, which the source may not have.
+      filters.push('scale=trunc(iw/2)*2:trunc(ih/2)*2');
+    }
+    if (fps) filters.push(`fps=${fps}`);
+    const trimOpts = trimArgs(trim);
+    const vfOpts = filters.length > 0 ? ['-vf', filters.join(',')] : [];
     // ffmpeg.FS('writeFile', name, await fetchFile(files[0]));
     await ffmpeg.writeFile(inputFilename, await fetchFile(videoData));
-    const ret = await ffmpeg.exec(['-i', inputFilename, '-vf', vfOpt, outputFilename]);
+
+    if (output.rate.mode === 'size') {
+      // The bitrate follows from the length of what is kept; two passes let the encoder
+      // spread it over the clip, spending more on the complex parts.
+      const probe = await probeInput(inputFilename);
+      const duration = trim ? Math.min(trim.end, probe.duration || trim.end) - trim.start : probe.duration;
+      if (duration <= 0) {
+        throw new Error('Could not determine the video duration needed for the target size.');
+      }
+      const audioKbps = probe.hasAudio && !output.audio.strip ? output.audio.bitrateKbps ?? TARGET_SIZE_AUDIO_KBPS : 0;
+      const videoKbps = targetVideoBitrate(output.rate, duration, audioKbps);
+      onProgress(`Target ${output.rate.targetSizeMB} MB over ${duration.toFixed(1)} s: video ${videoKbps} kbit/s, audio ${audioKbps} kbit/s`);
+
+      onProgress('Pass 1 of 2...');
+      const firstPass = await ffmpeg.exec([...trimOpts, '-i', inputFilename, ...vfOpts, ...videoEncoderArgs(output, videoKbps),
+        '-pass', '1', '-passlogfile', passLogName, '-an', '-f', 'null', '-']);
+      if (firstPass !== 0) {
+        throw new Error('ffmpeg failed in the first pass while analyzing the video for the target size.');
+      }
+      onProgress('Pass 2 of 2...');
+      const secondPass = await ffmpeg.exec([...trimOpts, '-i', inputFilename, ...vfOpts, ...videoOutputArgs(output, { videoKbps, audioKbps: audioKbps || undefined }),
+        '-pass', '2', '-passlogfile', passLogName, outputFilename]);
+      if (secondPass !== 0) {
+        throw new Error('ffmpeg failed in the second pass while encoding the video for the target size.');
+      }
+    } else {
+      const ret = await ffmpeg.exec([...trimOpts, '-i', inputFilename, ...vfOpts, ...videoOutputArgs(output), outputFilename]);
+      if (ret !== 0) {
+        throw new Error('ffmpeg could not convert the video. The chosen codecs may not fit the container or the input.');
+      }
+    }
     const data = await ffmpeg.readFile(outputFilename);
-    await ffmpeg.deleteFile(outputFilename);
-    return new Blob([(data as Uint8Array).buffer], { type: 'video/mp4' })
+    return new Blob([(data as Uint8Array).buffer], { type: videoContainers[output.container].mimeType })
   } catch (err) {
     console.error(err);
+    onProgress(`Error: ${err instanceof Error ? err.message : String(err)}`);
     return null;
+  } finally {
+    ffmpeg.off('log', onLog);
+    // Free ffmpeg's in-memory file system between files.
+    for (const name of [inputFilename, outputFilename, ...passLogFiles]) {
+      await ffmpeg.deleteFile(name).catch(() => {});
+    }
   }
-}
\ No newline at end of file
+}
+
+// Encodes the sound track (of the trimmed range) into an audio-only file.
+export const extractAudio = async (
+  videoData: Blob,
+  trim: TrimRange | null,
+  format: AudioExtractFormat,
+  audio: AudioSettings,
+  ext: VideoExtensions,
+  onProgress: (message: string) => void,
+): Promise<Blob | null> => {
+  const { extension, mimeType, encoder } = audioExtractFormats[format];
+  const onLog = ({ message: msg }: LogEvent) => {
+    onProgress(msg);
+  };
+  const inputFilename = 'tmp.' + ext;
+  const outputFilename = 'tmp_audio.' + extension;
+
+  try {
+    ffmpeg.on('log', onLog);
+    await loadFFmpeg();
+    await ffmpeg.writeFile(inputFilename, await fetchFile(videoData));
+    const ret = await ffmpeg.exec([...trimArgs(trim), '-i', inputFilename, '-vn', ...audioEncoderArgs(encoder, audio), outputFilename]);
+    if (ret !== 0) {
+      throw new Error('ffmpeg could not extract the audio. The video may have no sound track.');
+    }
+    const data = await ffmpeg.readFile(outputFilename);
+    return new Blob([(data as Uint8Array).buffer], { type: mimeType });
+  } catch (err) {
+    console.error(err);
+    onProgress(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    return null;
+  } finally {
+    ffmpeg.off('log', onLog);
+    for (const name of [inputFilename, outputFilename]) {
+      await ffmpeg.deleteFile(name).catch(() => {});
+    }
+  }
+}
+
+// Converts the (trimmed) clip into an animated GIF or WebP. GIFs are made in two passes:
+// the first collects the colors of the whole clip into a 256-color palette, the second maps
+// every frame onto it, which looks far better than ffmpeg's fixed default palette.
+export const videoToAnimation = async (
+  videoData: Blob,
+  width: number | null,
+  height: number | null,
+  fps: number | null,
+  trim: TrimRange | null,
+  format: AnimationFormat,
+  options: AnimationOptions,
+  ext: VideoExtensions,
+  onProgress: (message: string) => void,
+): Promise<Blob | null> => {
+  const onLog = ({ message: msg }: LogEvent) => {
+    onProgress(msg);
+  };
+  const inputFilename = 'tmp.' + ext;
+  const paletteFilename = 'tmp_palette.png';
+  const outputFilename = 'tmp_output.' + format;
+  const filters = animationFilters(width, height, fps);
+  const loopOpts = ['-loop', animationLoopArg(format, options.plays)];
+
+  try {
+    ffmpeg.on('log', onLog);
+    await loadFFmpeg();
+    await ffmpeg.writeFile(inputFilename, await fetchFile(videoData));
+
+    if (format === 'gif') {
+      onProgress('Pass 1 of 2: generating palette...');
+      const paletteRet = await ffmpeg.exec([...trimArgs(trim), '-i', inputFilename, '-vf', `${filters},palettegen=stats_mode=diff`, paletteFilename]);
+      if (paletteRet !== 0) {
+        throw new Error('ffmpeg could not generate the GIF palette.');
+      }
+      onProgress('Pass 2 of 2: encoding GIF...');
+      const gifRet = await ffmpeg.exec([...trimArgs(trim), '-i', inputFilename, '-i', paletteFilename,
+        '-lavfi', `${filters}[x];[x][1:v]paletteuse=${paletteUseOptions(options.dither)}`, ...loopOpts, outputFilename]);
+      if (gifRet !== 0) {
+        throw new Error('ffmpeg could not encode the GIF with the generated palette.');
+      }
+    } else {
+      const ret = await ffmpeg.exec([...trimArgs(trim), '-i', inputFilename, '-vf', filters,
+        '-c:v', 'libwebp_anim', '-lossless', '0', '-q:v', String(options.quality), ...loopOpts, '-an', outputFilename]);
+      if (ret !== 0) {
+        throw new Error('ffmpeg could not encode the animated WebP.');
+      }
+    }
+    const data = await ffmpeg.readFile(outputFilename);
+    return new Blob([(data as Uint8Array).buffer], { type: animationFormats[format].mimeType });
+  } catch (err) {
+    console.error(err);
+    onProgress(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    return null;
+  } finally {
+    ffmpeg.off('log', onLog);
+    for (const name of [inputFilename, paletteFilename, outputFilename]) {
+      await ffmpeg.deleteFile(name).catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { anchorFactors, type ResizeAnchor } from "./imagerender";
+
+// Text or logo watermark drawn onto the finished output canvas. Sizes and margins are
+// relative to the output's shorter side so every output size gets the same look.
+
+export interface WatermarkOptions {
+  kind: 'text' | 'logo';
+  text: string;
+  font: string;
+  color: string;
+  shadow: boolean;
+  // PNG with transparency, used when kind is 'logo'.
+  logo?: Blob;
+  // Text height or the logo's longer side, in percent of the output's shorter side.
+  sizePercent: number;
+  opacity: number;
+  placement: 'anchor' | 'tile';
+  anchor: ResizeAnchor;
+  marginPercent: number;
+}
+
+export const defaultWatermark: WatermarkOptions = {
+  kind: 'text',
+  text: '© ',
+  font: 'sans-serif',
+  color: '#ffffff',
+  shadow: true,
+  sizePercent: 5,
+  opacity: 0.6,
+  placement: 'anchor',
+  anchor: 'bottom-right',
+  marginPercent: 3,
+};
+
+// Families that resolve in workers too, where web fonts from the page are not available.
+export const watermarkFonts: { value: string, label: string }[] = [
+  { value: 'sans-serif', label: 'Sans-serif' },
+  { value: 'serif', label: 'Serif' },
+  { value: 'monospace', label: 'Monospace' },
+  { value: 'Arial, sans-serif', label: 'Arial' },
+  { value: 'Georgia, serif', label: 'Georgia' },
+  { value: 'Impact, sans-serif', label: 'Impact' },
+  { value: '"Courier New", monospace', label: 'Courier New' },
+];
+
+const TILE_ANGLE = -Math.PI / 6;
+
+export const isWatermarkActive = (options: WatermarkOptions | undefined): options is WatermarkOptions =>
+  !!options && (options.kind === 'logo' ? !!options.logo : options.text.trim() !== '');
+
+const logoCache = new WeakMap<Blob, Promise<ImageBitmap>>();
+
+const loadLogo = (logo: Blob): Promise<ImageBitmap> => {
+  let bitmap = logoCache.get(logo);
+  if (!bitmap) {
+    bitmap = createImageBitmap(logo);
+    logoCache.set(logo, bitmap);
+  }
+  return bitmap;
+};
+
+interface Mark {
+  width: number;
+  height: number;
+  // Draws the mark with its top-left corner at (0, 0).
+  draw: (ctx: OffscreenCanvasRenderingContext2D) => void;
+}
+
+const prepareMark = async (ctx: OffscreenCanvasRenderingContext2D, options: WatermarkOptions, size: number): Promise<Mark> => {
+  if (options.kind === 'logo' && options.logo) {
+    const logo = await loadLogo(options.logo);
+    const scale = size / Math.max(logo.width, logo.height);
+    const width = Math.max(1, Math.round(logo.width * scale));
+    const height = Math.max(1, Math.round(logo.height * scale));
+    return { width, height, draw: c => c.drawImage(logo, 0, 0, width, height) };
+  }
+  ctx.font = `${size}px ${options.font}`;
+  const metrics = ctx.measureText(options.text);
+  return {
+    width: Math.ceil(metrics.width),
+    height: size,
+    draw: c => {
+      c.font = `${size}px ${options.font}`;
+      c.textBaseline = 'middle';
+      c.fillStyle = options.color;
+      c.fillText(options.text, 0, size / 2);
+    },
+  };
+};
+
+export const drawWatermark = async (canvas: OffscreenCanvas, options: WatermarkOptions): Promise<void> => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  const shorter = Math.min(canvas.width, canvas.height);
+  const size = Math.max(1, Math.round(shorter * options.sizePercent / 100));
+  const mark = await prepareMark(ctx, options, size);
+
+  ctx.save();
+  ctx.globalAlpha = options.opacity;
+  if (options.shadow) {
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = size * 0.15;
+    ctx.shadowOffsetX = size * 0.04;
+    ctx.shadowOffsetY = size * 0.04;
+  }
+
+  if (options.placement === 'tile') {
+    // Cover the canvas diagonal so the rotated grid leaves no gaps in the corners.
+    const gapX = mark.width * 0.8 + size;
+    const gapY = mark.height * 2.5;
+    const reach = Math.hypot(canvas.width, canvas.height) / 2;
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(TILE_ANGLE);
+    for (let row = 0, y = -reach; y < reach; row++, y += gapY) {
+      const offset = row % 2 === 0 ? 0 : gapX / 2;
+      for (let x = -reach - offset; x < reach; x += gapX) {
+        ctx.save();
+        ctx.translate(x, y);
+        mark.draw(ctx);
+        ctx.restore();
+      }
+    }
+  } else {
+    const margin = Math.round(shorter * options.marginPercent / 100);
+    const anchor = anchorFactors(options.anchor);
+    const x = margin + (canvas.width - 2 * margin - mark.width) * anchor.x;
+    const y = margin + (canvas.height - 2 * margin - mark.height) * anchor.y;
+    ctx.translate(Math.round(x), Math.round(y));
+    mark.draw(ctx);
+  }
+  ctx.restore();
+};
+
+// The watermark alone on a transparent canvas, for compositing onto animation frames.
+export const renderWatermarkLayer = async (width: number, height: number, options: WatermarkOptions): Promise<Uint8Array> => {
+  const canvas = new OffscreenCanvas(width, height);
+  await drawWatermark(canvas, options);
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return new Uint8Array(await blob.arrayBuffer());
+};
@@ -0,0 +1,88 @@
+import { blobCrc32 } from "./crc32";
+
+// Minimal ZIP writer (stored entries, no compression). Images and videos are already
+// compressed, so deflating them again would cost time for next to no gain.
+// Entry contents are referenced as Blobs and never copied into one big buffer.
+
+export interface ZipEntry {
+  name: string;
+  blob: Blob;
+  lastModified?: Date;
+}
+
+const MAX_ZIP32_SIZE = 0xffffffff;
+
+const dosDateTime = (date: Date): { time: number, date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = async (
+  entries: ZipEntry[],
+  onProgress?: (done: number, total: number) => void,
+): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const name = encoder.encode(entry.name);
+    const crc = await blobCrc32(entry.blob);
+    const size = entry.blob.size;
+    const { time, date } = dosDateTime(entry.lastModified ?? new Date());
+    if (offset + size > MAX_ZIP32_SIZE) {
+      throw new Error('The archive would exceed 4 GB, which is not supported.');
+    }
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true); // UTF-8 file names
+    lv.setUint16(8, 0, true); // stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, size, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    parts.push(local, entry.blob);
+    central.push(header);
+    offset += local.length + size;
+    onProgress?.(i + 1, entries.length);
+  }
+
+  const centralSize = central.reduce((sum, h) => sum + h.length, 0);
+  if (offset + centralSize > MAX_ZIP32_SIZE) {
+    throw new Error('The archive would exceed 4 GB, which is not supported.');
+  }
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+};
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { getImageSize } from '../lib/imageutils';
-import { ImageMagick, initializeImageMagick, MagickFormat } from '@imagemagick/magick-wasm';
+import { downloadBlob } from '../lib/downloadutils';
+import { buildFileName } from '../lib/filenametemplate';
+import { FileNameTemplate, useFileNameTemplate } from '~/components/FileNameTemplate';
+import { convertImage } from '../lib/magick';
 import { Button } from "~/components/ui/button";
 import {
   Card,
@@ -24,25 +27,29 @@ interface ImageResult {
   size: number; // Original size
 }
 
+const DEFAULT_FILE_NAME_TEMPLATE = 'decoded-image';
+
+// Guess the file extension from the MIME type
+const extensionFor = (format: string) => {
+  if (format.includes('jpeg') || format.includes('jpg')) return 'jpg';
+  if (format.includes('png')) return 'png';
+  if (format.includes('gif')) return 'gif';
+  if (format.includes('webp')) return 'webp';
+  if (format.includes('svg')) return 'svg';
+  if (format.includes('bmp')) return 'bmp';
+  if (format.includes('jp2')) return 'jp2';
+  if (format.includes('tiff') || format.includes('tif')) return 'tiff';
+  return 'bin';
+};
+
 export function Base64ImagePage() {
   const [inputString, setInputString] = useState('');
   const [result, setResult] = useState<ImageResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [isMagickInitialized, setIsMagickInitialized] = useState(false);
+  const [fileNameTemplate, setFileNameTemplate] = useFileNameTemplate('base64', DEFAULT_FILE_NAME_TEMPLATE);
 
   useEffect(() => {
-    const initMagick = async () => {
-      try {
-        await initializeImageMagick(new URL(import.meta.env.BASE_URL + 'assets/libs/3rd-party/imagemagick/magick.wasm', window.location.origin));
-        setIsMagickInitialized(true);
-      } catch (e) {
-        console.error("Failed to initialize ImageMagick", e);
-        // We don't block the page, but JP2 conversion might fail
-      }
-    };
-    initMagick();
-
     return () => {
       if (result) {
         URL.revokeObjectURL(result.displayUrl);
@@ -131,31 +138,16 @@ export function Base64ImagePage() {
       let originalBlob = new Blob([arr], { type: mimeType });
 
       if ((mimeType === 'image/jp2' || headerHex.startsWith('0000000C6A502020') || mimeType === 'image/tiff' || headerHex.startsWith('49492A00') || headerHex.startsWith('4D4D002A'))) {
-          // Special handling for JP2 and TIFF
-          if (!isMagickInitialized) {
-              throw new Error("ImageMagick is not initialized. Cannot process JP2/TIFF.");
-          }
+          // Special handling for JP2 and TIFF; ImageMagick is loaded on first use
           if (headerHex.startsWith('0000000C6A502020')) mimeType = 'image/jp2';
           if (headerHex.startsWith('49492A00') || headerHex.startsWith('4D4D002A')) mimeType = 'image/tiff';
           
           originalBlob = new Blob([arr], { type: mimeType });
 
-          await new Promise<void>((resolve, reject) => {
-              try {
-                  ImageMagick.read(arr, (image) => {
-                      width = image.width;
-                      height = image.height;
-                      image.write(MagickFormat.Jpeg, (data) => {
-                          const safeData = new Uint8Array(data);
-                          const jpegBlob = new Blob([safeData], { type: 'image/jpeg' });
-                          displayUrl = URL.createObjectURL(jpegBlob);
-                          resolve();
-                      });
-                  });
-              } catch (e) {
-                  reject(e);
-              }
-          });
+          const preview = await convertImage(arr, 'jpg');
+          width = preview.width;
+          height = preview.height;
+          displayUrl = URL.createObjectURL(preview.blob);
           downloadUrl = URL.createObjectURL(originalBlob);
       } else {
           // Standard Image Handling
@@ -201,26 +193,14 @@ export function Base64ImagePage() {
     setError(null);
   };
 
-  const handleDownload = () => {
-    if (!result) return;
-    const link = document.createElement('a');
-    link.href = result.downloadUrl;
-    
-    // Guess extension
-    let ext = 'bin';
-    if (result.format.includes('jpeg') || result.format.includes('jpg')) ext = 'jpg';
-    else if (result.format.includes('png')) ext = 'png';
-    else if (result.format.includes('gif')) ext = 'gif';
-    else if (result.format.includes('webp')) ext = 'webp';
-    else if (result.format.includes('svg')) ext = 'svg';
-    else if (result.format.includes('bmp')) ext = 'bmp';
-    else if (result.format.includes('jp2')) ext = 'jp2';
-    else if (result.format.includes('tiff') || result.format.includes('tif')) ext = 'tiff';
+  const fileNameValues = () => result && result.width > 0 ? { w: result.width, h: result.height } : {};
 
-    link.download = `decoded-image.${ext}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleDownload = async () => {
+    if (!result) return;
+    const fileName = await buildFileName(
+      fileNameTemplate, fileNameValues(), extensionFor(result.format), result.originalBlob, 'decoded-image',
+    );
+    downloadBlob(result.originalBlob, fileName, result.downloadUrl);
   };
 
   const formatBytes = (bytes: number, decimals = 2) => {
@@ -255,6 +235,19 @@ export function Base64ImagePage() {
           />
         </div>
 
+        <div className="max-w-xl">
+          <FileNameTemplate
+            id="fileNameTemplate"
+            template={fileNameTemplate}
+            defaultTemplate={DEFAULT_FILE_NAME_TEMPLATE}
+            onChange={setFileNameTemplate}
+            tokens={['w', 'h', 'format', 'date', 'hash']}
+            sample={fileNameValues()}
+            extension={result ? extensionFor(result.format) : 'png'}
+            sampleBlob={result?.originalBlob}
+          />
+        </div>
+
         <div className="flex gap-2">
           <Button onClick={handleConvert} disabled={loading || !inputString}>
             {loading ? 'Decoding...' : 'Decode Image'}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ImageMagick, initializeImageMagick, MagickFormat } from '@imagemagick/magick-wasm';
+import { useSearchParams } from 'react-router';
 
 import { Button } from "~/components/ui/button";
 import {
@@ -9,7 +9,6 @@ import {
   CardHeader,
   CardTitle,
 } from "~/components/ui/card";
-import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
 import {
   Select,
@@ -19,201 +18,256 @@ import {
   SelectValue,
 } from "~/components/ui/select";
 import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
-import { XCircle } from "lucide-react";
+import { XCircle, Archive } from "lucide-react";
+import { FileIntake } from "~/components/FileIntake";
+import { BatchProgress } from "~/components/BatchProgress";
+import { ImageCompare } from "~/components/ImageCompare";
+import { FileNameTemplate, useFileNameTemplate } from "~/components/FileNameTemplate";
+import { EncoderOptionsForm } from "~/components/EncoderOptionsForm";
+import { fileExtensions } from "../commons/fileconst";
+import { downloadBlob, downloadAsZip } from "../lib/downloadutils";
+import { baseNameOf, buildFileName, formatIndexToken } from "../lib/filenametemplate";
+import { readEnumParam, useSyncSearchParams } from "../lib/urlstate";
+import { convertImage, loadMagick } from "../lib/magick";
+import {
+  defaultEncoderOptions,
+  describeEncoderOptions,
+  type EncoderOptions,
+} from "../lib/encoderoptions";
+
+const DEFAULT_FILE_NAME_TEMPLATE = '{name}_converted';
+
+const targetFormats = ['jpg', 'png', 'gif', 'avif', 'webp', 'bmp', 'jp2', 'tiff'];
+
+// Browsers cannot display these, so a JPEG copy is made for the preview.
+const previewOnlyFormats = ['tiff', 'jp2'];
+
+// Interface for conversion results
+interface ConversionResult {
+  file: File;
+  status: 'pending' | 'processing' | 'success' | 'error';
+  // Target format used for this output; the selection may change afterwards.
+  format?: string;
+  // Encoder settings used, e.g. "quality 90, 4:2:0".
+  encoderSummary?: string;
+  outputBlob?: Blob;
+  outputUrl?: string;
+  // Browser-displayable version of the output, same as outputUrl unless TIFF/JP2.
+  displayUrl?: string;
+  outputWidth?: number;
+  outputHeight?: number;
+  error?: string;
+  // Output was downloaded and its blob released.
+  released?: boolean;
+}
+
+const revokeResultUrls = (r: ConversionResult) => {
+  if (r.outputUrl) URL.revokeObjectURL(r.outputUrl);
+  if (r.displayUrl && r.displayUrl !== r.outputUrl) URL.revokeObjectURL(r.displayUrl);
+};
 
 export function ImageConvertPage() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [targetFormat, setTargetFormat] = useState<string>('png');
+  const [searchParams] = useSearchParams();
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [targetFormat, setTargetFormat] = useState<string>(() => readEnumParam(searchParams, 'format', targetFormats, 'png'));
+  const [encoderOptions, setEncoderOptions] = useState<EncoderOptions>(defaultEncoderOptions);
+  const [results, setResults] = useState<ConversionResult[]>([]);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [isZipping, setIsZipping] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [outputUrl, setOutputUrl] = useState<string | null>(null);
-  const [outputBlob, setOutputBlob] = useState<Blob | null>(null);
-  const [displayUrl, setDisplayUrl] = useState<string | null>(null);
   const [isMagickInitialized, setIsMagickInitialized] = useState(false);
+  const [fileNameTemplate, setFileNameTemplate] = useFileNameTemplate('convert', DEFAULT_FILE_NAME_TEMPLATE);
 
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  useSyncSearchParams({ format: targetFormat !== 'png' && targetFormat });
 
+  // Keep the latest results for the unmount cleanup
+  const latestResultsRef = useRef(results);
   useEffect(() => {
-    const initMagick = async () => {
-      try {
-        await initializeImageMagick(new URL(import.meta.env.BASE_URL + 'assets/libs/3rd-party/imagemagick/magick.wasm', window.location.origin));
-        setIsMagickInitialized(true);
-      } catch (e) {
-        console.error("Failed to initialize ImageMagick", e);
-        setError("Failed to initialize ImageMagick library. Please refresh the page.");
-      }
-    };
-    initMagick();
+    latestResultsRef.current = results;
+  }, [results]);
+
+  useEffect(() => {
+    loadMagick()
+      .then(() => setIsMagickInitialized(true))
+      .catch((err: Error) => {
+        console.error(err);
+        setError(`${err.message}. Please refresh the page.`);
+      });
 
     return () => {
-      if (outputUrl) {
-        URL.revokeObjectURL(outputUrl);
-      }
-      if (displayUrl) {
-        URL.revokeObjectURL(displayUrl);
-      }
+      latestResultsRef.current.forEach(revokeResultUrls);
     };
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
-
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (files && files.length > 0) {
-      const file = files[0];
-      // Basic validation
-      const fileExt = file.name.split('.').pop()?.toLowerCase();
-      // We'll allow any image type that ImageMagick likely supports, 
-      // but warn if it's not in our standard list? 
-      // For now, let's accept what the input accepts.
-      
-      setSelectedFile(file);
-      setError(null);
-      // Reset output
-      if (outputUrl) URL.revokeObjectURL(outputUrl);
-      setOutputUrl(null);
-      setOutputBlob(null);
+  }, []);
+
+  const handleFiles = (files: File[], fileErrors: string[]) => {
+    setError(fileErrors.length > 0 ? fileErrors.join('\n') : null);
+    if (files.length > 0) {
+      results.forEach(revokeResultUrls);
+      setSelectedFiles(files);
+      setResults(files.map(file => ({ file, status: 'pending' })));
     }
   };
 
+  const updateResult = (index: number, changes: Partial<ConversionResult>) => {
+    setResults(prev => {
+      const newResults = [...prev];
+      newResults[index] = { ...newResults[index], ...changes };
+      return newResults;
+    });
+  };
+
   const handleConvert = async () => {
-    if (!selectedFile || !isMagickInitialized) return;
+    if (selectedFiles.length === 0 || !isMagickInitialized) return;
 
     setIsProcessing(true);
     setError(null);
 
-    try {
-      const arrayBuffer = await selectedFile.arrayBuffer();
-      const uint8Array = new Uint8Array(arrayBuffer);
-
-      ImageMagick.read(uint8Array, (image) => {
-        let format: MagickFormat = MagickFormat.Png;
-        switch (targetFormat) {
-            case 'jpg':
-            case 'jpeg':
-                format = MagickFormat.Jpeg;
-                break;
-            case 'png':
-                format = MagickFormat.Png;
-                break;
-            case 'gif':
-                format = MagickFormat.Gif;
-                break;
-            case 'avif':
-                format = MagickFormat.Avif;
-                break;
-            case 'webp':
-                format = MagickFormat.WebP;
-                break;
-            case 'bmp':
-                format = MagickFormat.Bmp;
-                break;
-            case 'jp2':
-                format = MagickFormat.Jp2;
-                break;
-            case 'tiff':
-                format = MagickFormat.Tiff;
-                break;
-             // Default to PNG if unknown
-            default:
-                format = MagickFormat.Png;
-        }
-
-        image.write(format, (data) => {
-            const safeData = new Uint8Array(data);
-            const blob = new Blob([safeData], { type: `image/${targetFormat === 'jpg' ? 'jpeg' : targetFormat}` });
-            const url = URL.createObjectURL(blob);
-            setOutputBlob(blob);
-            setOutputUrl(url);
-
-            // For display, if the target format is TIFF or JP2, convert to JPEG for browser compatibility
-            if (targetFormat === 'tiff' || targetFormat === 'jp2') {
-              image.write(MagickFormat.Jpeg, (jpegData) => {
-                const jpegBlob = new Blob([new Uint8Array(jpegData)], { type: 'image/jpeg' });
-                setDisplayUrl(URL.createObjectURL(jpegBlob));
-              });
-            } else {
-              setDisplayUrl(url);
-            }
+    results.forEach(revokeResultUrls);
+    setResults(selectedFiles.map(file => ({ file, status: 'pending' })));
+
+    // ImageMagick runs on the main thread, so files are converted one after another.
+    for (let i = 0; i < selectedFiles.length; i++) {
+      const file = selectedFiles[i];
+      updateResult(i, { status: 'processing' });
+      try {
+        const data = new Uint8Array(await file.arrayBuffer());
+        const converted = await convertImage(data, targetFormat, {
+          encoder: encoderOptions,
+          jpegPreview: previewOnlyFormats.includes(targetFormat),
         });
-      });
-    } catch (err: any) {
-        console.error(err);
-        setError(`Conversion failed: ${err.message || "Unknown error"}`);
-    } finally {
-        setIsProcessing(false);
+        const outputUrl = URL.createObjectURL(converted.blob);
+        updateResult(i, {
+          status: 'success',
+          format: targetFormat,
+          encoderSummary: describeEncoderOptions(targetFormat, encoderOptions),
+          outputBlob: converted.blob,
+          outputUrl,
+          displayUrl: converted.preview ? URL.createObjectURL(converted.preview) : outputUrl,
+          outputWidth: converted.width,
+          outputHeight: converted.height,
+        });
+      } catch (err) {
+        console.error(`Error converting file ${file.name}:`, err);
+        updateResult(i, { status: 'error', error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    setIsProcessing(false);
+  };
+
+  const fileNameValues = (result: ConversionResult | undefined, index: number, total: number) => ({
+    name: result ? baseNameOf(result.file.name) : 'image',
+    w: result?.outputWidth,
+    h: result?.outputHeight,
+    index: formatIndexToken(index, total),
+  });
+
+  const outputFileName = (index: number) => {
+    const result = results[index];
+    return buildFileName(
+      fileNameTemplate,
+      fileNameValues(result, index, results.length),
+      result.format ?? targetFormat,
+      result.outputBlob,
+      'image',
+    );
+  };
+
+  // Downloaded outputs are dropped from memory so long batches do not pile up blobs.
+  const releaseResults = (indices: number[]) => {
+    setResults(prev => prev.map((r, i) => {
+      if (!indices.includes(i)) return r;
+      revokeResultUrls(r);
+      return { ...r, outputBlob: undefined, outputUrl: undefined, displayUrl: undefined, released: true };
+    }));
+  };
+
+  const handleDownload = async (index: number) => {
+    const result = results[index];
+    if (result.outputUrl && result.outputBlob) {
+      downloadBlob(result.outputBlob, await outputFileName(index), result.outputUrl);
+      // Give the browser a moment to start reading the blob before revoking it.
+      setTimeout(() => releaseResults([index]), 1000);
     }
   };
 
-  const handleDownload = () => {
-    if (outputUrl && selectedFile) {
-        const link = document.createElement('a');
-        link.href = outputUrl;
-        const originalName = selectedFile.name.substring(0, selectedFile.name.lastIndexOf('.')) || selectedFile.name;
-        link.download = `${originalName}_converted.${targetFormat}`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+  const handleDownloadAll = async () => {
+    const indices = results
+      .map((r, i) => (r.status === 'success' && r.outputBlob ? i : -1))
+      .filter(i => i >= 0);
+    if (indices.length === 0) return;
+    setIsZipping(true);
+    setError(null);
+    try {
+      await downloadAsZip(
+        await Promise.all(indices.map(async i => ({ name: await outputFileName(i), blob: results[i].outputBlob! }))),
+        'converted_images.zip',
+      );
+      setTimeout(() => releaseResults(indices), 1000);
+    } catch (err) {
+      setError(`Failed to create ZIP archive: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsZipping(false);
     }
   };
 
   const handleClear = () => {
-      setSelectedFile(null);
-      if (outputUrl) URL.revokeObjectURL(outputUrl);
-      setOutputUrl(null);
-      setOutputBlob(null);
-      if (displayUrl) URL.revokeObjectURL(displayUrl);
-      setDisplayUrl(null);
-      setError(null);
-      if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-      }
+    results.forEach(revokeResultUrls);
+    setSelectedFiles([]);
+    setResults([]);
+    setEncoderOptions(defaultEncoderOptions);
+    setError(null);
   };
 
-  // Construct accept types string
-  // Using generic image/* allows more flexibility for input, 
-  // but we can stick to fileExtensions if we want to be strict.
-  // The user asked to limit upload to 1 file.
-  const acceptTypes = "image/*,.jp2,image/jp2,.tiff,image/tiff"; 
+  const acceptTypes = fileExtensions.convert.map(ext => `.${ext}`).join(',');
 
-  const targetFormats = ['jpg', 'png', 'gif', 'avif', 'webp', 'bmp', 'jp2', 'tiff'];
+  // The first finished output, or else the first selected file, drives the file name preview.
+  const sampleIndex = Math.max(0, results.findIndex(r => r.status === 'success' && r.outputBlob));
+  const sampleResult = results[sampleIndex];
 
   return (
     <Card className="max-w-4xl mx-auto my-4">
       <CardHeader>
         <CardTitle>Convert Image Format</CardTitle>
         <CardDescription>
-          Upload an image file and convert it to a different format.
+          Upload image files or whole folders and convert them to a different format.
         </CardDescription>
       </CardHeader>
 
       <CardContent className="grid gap-6">
         {/* File Input */}
-        <div className="grid gap-2">
-            <Label htmlFor="imageFile">Select Image File</Label>
-            <Input
-                ref={fileInputRef}
-                type="file"
-                id="imageFile"
-                accept={acceptTypes}
-                onChange={handleFileChange}
-                disabled={isProcessing}
-                className="w-full"
-            />
-            {selectedFile && (
-                <p className="text-sm text-muted-foreground">
-                    Selected: {selectedFile.name} ({(selectedFile.size / 1024 / 1024).toFixed(2)} MB)
-                </p>
+        <FileIntake
+            id="imageFiles"
+            label="Select Image Files"
+            extensions={fileExtensions.convert}
+            accept={acceptTypes}
+            onFiles={handleFiles}
+            disabled={isProcessing}
+            multiple
+        >
+            {selectedFiles.length > 0 && (
+                <div className="mt-2 space-y-1">
+                    <p className="text-sm font-medium">Selected Files:</p>
+                    <ul className="list-disc list-inside text-sm text-muted-foreground">
+                        {selectedFiles.map((file, index) => (
+                            <li key={index}>
+                                {file.name} ({(file.size / 1024 / 1024).toFixed(2)} MB)
+                            </li>
+                        ))}
+                    </ul>
+                </div>
             )}
-        </div>
+        </FileIntake>
 
         {/* Format Selection */}
         <div className="grid gap-2">
             <Label htmlFor="formatSelect">Target Format</Label>
-            <Select 
-                value={targetFormat} 
+            <Select
+                value={targetFormat}
                 onValueChange={setTargetFormat}
                 disabled={isProcessing}
             >
-                <SelectTrigger className="w-[180px]">
+                <SelectTrigger id="formatSelect" className="w-[180px]">
                     <SelectValue placeholder="Select format" />
                 </SelectTrigger>
                 <SelectContent>
@@ -224,16 +278,41 @@ export function ImageConvertPage() {
             </Select>
         </div>
 
+        {/* Encoder Options */}
+        <div className="grid gap-2">
+            <Label>{targetFormat.toUpperCase()} Options</Label>
+            <EncoderOptionsForm
+                format={targetFormat}
+                value={encoderOptions}
+                onChange={setEncoderOptions}
+                disabled={isProcessing}
+            />
+        </div>
+
+        <div className="max-w-xl">
+            <FileNameTemplate
+                id="fileNameTemplate"
+                template={fileNameTemplate}
+                defaultTemplate={DEFAULT_FILE_NAME_TEMPLATE}
+                onChange={setFileNameTemplate}
+                tokens={['name', 'w', 'h', 'format', 'index', 'date', 'hash']}
+                sample={fileNameValues(sampleResult, sampleIndex, Math.max(results.length, 1))}
+                extension={sampleResult?.format ?? targetFormat}
+                sampleBlob={sampleResult?.outputBlob}
+                disabled={isProcessing}
+            />
+        </div>
+
         {/* Actions */}
         <div className="flex gap-2">
-            <Button 
-                onClick={handleConvert} 
-                disabled={!selectedFile || isProcessing || !isMagickInitialized}
+            <Button
+                onClick={handleConvert}
+                disabled={selectedFiles.length === 0 || isProcessing || !isMagickInitialized}
             >
-                {isProcessing ? 'Converting...' : 'Convert Image'}
+                {isProcessing ? 'Converting...' : `Convert ${selectedFiles.length > 0 ? selectedFiles.length : ''} Image(s)`}
             </Button>
-            <Button 
-                onClick={handleClear} 
+            <Button
+                onClick={handleClear}
                 variant="outline"
                 disabled={isProcessing}
             >
@@ -246,34 +325,78 @@ export function ImageConvertPage() {
             <Alert variant="destructive">
                 <XCircle className="h-4 w-4" />
                 <AlertTitle>Error</AlertTitle>
-                <AlertDescription>{error}</AlertDescription>
+                <AlertDescription>
+                    {error.split('\n').map((line, i) => <p key={i}>{line}</p>)}
+                </AlertDescription>
             </Alert>
         )}
 
         {/* Result Display */}
-        {displayUrl && (
-            <div className="space-y-4 border-t pt-4">
-                <h3 className="text-lg font-semibold">Result</h3>
-                <div className="flex flex-col items-center gap-4">
-                    <img 
-                        src={displayUrl} 
-                        alt="Converted Result" 
-                        className="max-h-[400px] max-w-full object-contain border rounded-md bg-muted"
-                    />
-                    <div className="flex items-center gap-4">
-                        <Button onClick={handleDownload}>
-                            Download Converted Image
-                        </Button>
-                         {outputBlob && (
-                          <span className="text-sm text-muted-foreground">
-                            Size: {(outputBlob.size / 1024 / 1024).toFixed(2)} MB
-                          </span>
-                        )}
-                    </div>
+        {results.some(r => r.status !== 'pending') && (
+            <div className="space-y-6">
+                <div className="flex items-center justify-between gap-4 border-b pb-2">
+                    <h3 className="text-xl font-semibold">Conversion Results:</h3>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleDownloadAll}
+                        disabled={isZipping || !results.some(r => r.status === 'success' && r.outputBlob)}
+                    >
+                        <Archive className="h-4 w-4" />
+                        {isZipping ? 'Creating ZIP...' : 'Download All as ZIP'}
+                    </Button>
                 </div>
+                <BatchProgress items={results} />
+                {results.map((result, index) => (
+                    <Card key={index} className="overflow-hidden">
+                        <CardHeader className="bg-muted/50 p-4">
+                            <CardTitle className="text-base">
+                                File: {result.file.name}
+                                {result.status === 'pending' && <span className="ml-2 text-sm font-normal text-muted-foreground"> (Waiting)</span>}
+                                {result.status === 'processing' && <span className="ml-2 text-sm font-normal text-primary animate-pulse"> (Converting...)</span>}
+                                {result.status === 'success' && <span className="ml-2 text-sm font-normal text-green-600"> (Completed)</span>}
+                                {result.status === 'error' && <span className="ml-2 text-sm font-normal text-destructive"> (Failed)</span>}
+                            </CardTitle>
+                            <CardDescription className="text-xs">
+                                Original size: {(result.file.size / 1024 / 1024).toFixed(2)} MB
+                                {result.format && `, converted to ${result.format.toUpperCase()}`}
+                                {result.encoderSummary && ` (${result.encoderSummary})`}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="p-4 grid gap-4">
+                            {result.status === 'error' && result.error && (
+                                <Alert variant="destructive">
+                                    <XCircle className="h-4 w-4" />
+                                    <AlertTitle>Conversion Error</AlertTitle>
+                                    <AlertDescription className="text-xs">
+                                        {result.error}
+                                    </AlertDescription>
+                                </Alert>
+                            )}
+
+                            {result.status === 'success' && result.released && (
+                                <p className="text-sm text-muted-foreground">Downloaded. The output was released from memory.</p>
+                            )}
+
+                            {result.status === 'success' && result.outputBlob && result.displayUrl && (
+                                <div className="flex flex-col gap-4">
+                                    <ImageCompare original={result.file} output={result.outputBlob} outputPreviewUrl={result.displayUrl} />
+                                    <div className="flex items-center gap-4">
+                                        <Button size="sm" onClick={() => handleDownload(index)}>
+                                            Download Converted Image
+                                        </Button>
+                                        <span className="text-sm text-muted-foreground">
+                                            Size: {(result.outputBlob.size / 1024 / 1024).toFixed(2)} MB
+                                        </span>
+                                    </div>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                ))}
             </div>
         )}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -1,6 +1,62 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { resizeImage, getImageSize } from '../lib/imageutils';
+import { useSearchParams } from 'react-router';
+import {
+  getImageSize,
+  isLossyImageExtension,
+  renderTransformPreview,
+  type ResizeOptions,
+} from '../lib/imageutils';
+import {
+  resizeModes,
+  resizeAnchors,
+  identityTransform,
+  isIdentityTransform,
+  transformedSize,
+  type ResizeMode,
+  type ResizeAnchor,
+  type ImageTransform,
+} from '../lib/imagerender';
+import {
+  resizeImageInWorker,
+  setImageConcurrency,
+  terminateImageWorkers,
+  defaultImageConcurrency,
+} from '../lib/imageworkerpool';
+import { resampleFilters, type ResampleFilter } from '../lib/resample';
+import { metadataPolicies, type MetadataPolicy } from '../lib/imagemetadata';
 import { fileExtensions, type ImageExtensions } from "../commons/fileconst";
+import { downloadBlob, downloadAsZip } from '../lib/downloadutils';
+import {
+  createMemoryQueue,
+  defaultMemoryBudget,
+  estimateImageMemory,
+  formatMegabytes,
+  mapWithConcurrency,
+} from '../lib/memoryqueue';
+import { FileIntake } from '~/components/FileIntake';
+import { FileNameTemplate, useFileNameTemplate } from '~/components/FileNameTemplate';
+import { PresetPicker } from '~/components/PresetPicker';
+import { BatchProgress } from '~/components/BatchProgress';
+import { ImageCompare } from '~/components/ImageCompare';
+import { CropEditor } from '~/components/CropEditor';
+import type { RelativeCrop } from '../lib/crop';
+import {
+  defaultWatermark,
+  isWatermarkActive,
+  watermarkFonts,
+  type WatermarkOptions,
+} from '../lib/watermark';
+import { baseNameOf, buildFileName, formatIndexToken } from '../lib/filenametemplate';
+import {
+  builtInImagePresets,
+  sanitizeImagePresetSettings,
+  type ImagePresetSettings,
+} from '../lib/presets';
+import {
+  readEnumParam,
+  readIntParam,
+  useSyncSearchParams,
+} from '../lib/urlstate';
 
 import { Button } from "~/components/ui/button";
 import {
@@ -13,11 +69,18 @@ import {
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
 import { FormItem } from "~/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
 import { Progress } from "~/components/ui/progress";
 import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
-import { XCircle } from "lucide-react";
+import { XCircle, Archive, RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2 } from "lucide-react";
 
-const MAX_FILES = 5; // Allow more files for images
+const DEFAULT_FILE_NAME_TEMPLATE = '{name}_resized';
 
 // Interface for processing results
 interface ProcessingResult {
@@ -25,22 +88,69 @@ interface ProcessingResult {
   status: 'pending' | 'processing' | 'success' | 'error';
   originalWidth?: number;
   originalHeight?: number;
+  // Size after rotate/straighten, before crop and resize.
+  transformedWidth?: number;
+  transformedHeight?: number;
+  outputWidth?: number;
+  outputHeight?: number;
   outputBlob?: Blob;
   outputUrl?: string;
   progressLog: string[];
   error?: string;
   progressPercent?: number;
+  // Output was downloaded and its blob released.
+  released?: boolean;
 }
 
 export function ImagePage() {
+  // Settings start from the query string, e.g. /image?w=1200&mode=cover&q=80
+  const [searchParams] = useSearchParams();
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
-  const [width, setWidth] = useState<number | ''>('');
-  const [height, setHeight] = useState<number | ''>('');
+  const [width, setWidth] = useState<number | ''>(() => readIntParam(searchParams, 'w'));
+  const [height, setHeight] = useState<number | ''>(() => readIntParam(searchParams, 'h'));
+  const [mode, setMode] = useState<ResizeMode>(() => readEnumParam(searchParams, 'mode', resizeModes.map(m => m.value), 'fit'));
+  const [anchor, setAnchor] = useState<ResizeAnchor>(() => readEnumParam(searchParams, 'anchor', resizeAnchors, 'center'));
+  const [background, setBackground] = useState<string>('#ffffff');
+  const [transparentBackground, setTransparentBackground] = useState<boolean>(false);
+  const [filter, setFilter] = useState<ResampleFilter>(() =>
+    readEnumParam(searchParams, 'filter', resampleFilters.map(f => f.value), 'lanczos3'));
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>('strip');
+  const [transform, setTransform] = useState<ImageTransform>(identityTransform);
+  const [previewIndex, setPreviewIndex] = useState<number>(0);
+  const [preview, setPreview] = useState<{ blob: Blob, width: number, height: number } | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [cropEnabled, setCropEnabled] = useState<boolean>(false);
+  const [crop, setCrop] = useState<RelativeCrop | null>(null);
+  const [watermarkEnabled, setWatermarkEnabled] = useState<boolean>(false);
+  const [watermark, setWatermark] = useState<WatermarkOptions>(defaultWatermark);
+  const [encodeMode, setEncodeMode] = useState<'quality' | 'size'>(() => searchParams.has('maxkb') ? 'size' : 'quality');
+  // null keeps lossy files as they are unless something else requires re-encoding them.
+  const [quality, setQuality] = useState<number | null>(() => readIntParam(searchParams, 'q', 1, 100) || null);
+  const [maxSizeKB, setMaxSizeKB] = useState<number | ''>(() => readIntParam(searchParams, 'maxkb'));
+  const [concurrency, setConcurrency] = useState<number>(defaultImageConcurrency);
+  const [fileNameTemplate, setFileNameTemplate] = useFileNameTemplate('image', DEFAULT_FILE_NAME_TEMPLATE);
+
+  useSyncSearchParams({
+    w: width,
+    h: height,
+    mode: mode !== 'fit' && mode,
+    anchor: (mode === 'contain' || mode === 'cover') && anchor !== 'center' && anchor,
+    filter: filter !== 'lanczos3' && filter,
+    q: encodeMode === 'quality' && quality,
+    maxkb: encodeMode === 'size' && maxSizeKB,
+  });
   const [results, setResults] = useState<ProcessingResult[]>([]);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [isProbing, setIsProbing] = useState<boolean>(false);
+  // Only one comparison viewer is mounted, since each keeps two full-size images decoded.
+  const [comparedIndex, setComparedIndex] = useState<number | null>(null);
+  const [isZipping, setIsZipping] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [memoryBudget] = useState<number>(defaultMemoryBudget);
+  const [memoryQueue] = useState(() => createMemoryQueue(memoryBudget));
   const progressEndRefs = useRef<(HTMLDivElement | null)[]>([]);
+  // Bumped on every new selection so a slower, older size probe cannot overwrite the results.
+  const probeGenerationRef = useRef(0);
 
   const latestResultsRef = useRef(results);
 
@@ -55,67 +165,118 @@ export function ImagePage() {
           URL.revokeObjectURL(r.outputUrl);
         }
       });
+      terminateImageWorkers();
     };
   }, []);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (files) {
-      const newFiles: File[] = [];
-      const fileErrors: string[] = [];
-      let acceptedCount = 0;
-
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        if (acceptedCount >= MAX_FILES) {
-          fileErrors.push(`You can only select up to ${MAX_FILES} files. File "${file.name}" was ignored.`);
-          continue;
-        }
+  // Re-render the transform preview shortly after the settings stop changing.
+  useEffect(() => {
+    const file = selectedFiles[previewIndex];
+    if (!file || isIdentityTransform(transform)) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      renderTransformPreview(file, transform)
+        .then(result => { if (!cancelled) setPreview(result); })
+        .catch(() => { if (!cancelled) setPreview(null); });
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selectedFiles, previewIndex, transform]);
 
-        const fileExt = file.name.split('.').pop()?.toLowerCase();
-        if (fileExt && fileExtensions.image.includes(fileExt as ImageExtensions)) {
-          newFiles.push(file);
-          acceptedCount++;
-        } else {
-          fileErrors.push(`Unsupported file type: "${file.name}". Supported types: ${fileExtensions.image.join(', ')}`);
-        }
-      }
+  useEffect(() => {
+    if (!preview) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(preview.blob);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [preview]);
 
-      setSelectedFiles(newFiles);
-      setResults([]);
-      setError(fileErrors.length > 0 ? fileErrors.join('\n') : null);
+  const rotatedSize = (r: ProcessingResult) =>
+    r.originalWidth && r.originalHeight ? transformedSize(r.originalWidth, r.originalHeight, transform) : undefined;
 
-      Promise.all(newFiles.map(async (file) => {
-        try {
-            const { width: originalWidth, height: originalHeight } = await getImageSize(file);
-            return {
-            file,
-            status: 'pending' as const,
-            progressLog: [] as string[],
-            progressPercent: 0,
-            originalWidth,
-            originalHeight,
-            };
-        } catch (e) {
-             return {
-                file,
-                status: 'error' as const,
-                progressLog: ['Failed to load image size'],
-                progressPercent: 0,
-                error: 'Invalid image file'
-            };
-        }
-      })).then(initialResults => {
-        setResults(initialResults);
-        progressEndRefs.current = initialResults.map(() => null);
-      });
+  // The first finished output, or else the first selected file, drives the file name preview.
+  const sampleResult = results.find(r => r.status === 'success' && r.outputBlob);
+  const sampleFileNameValues = () => {
+    const file = sampleResult?.file ?? selectedFiles[0];
+    return {
+      name: file ? baseNameOf(file.name) : 'photo',
+      w: sampleResult ? sampleResult.outputWidth : width === '' ? undefined : width,
+      h: sampleResult ? sampleResult.outputHeight : height === '' ? undefined : height,
+      index: formatIndexToken(sampleResult ? results.indexOf(sampleResult) : 0, Math.max(results.length, selectedFiles.length)),
+    };
+  };
 
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+  const applyPreset = (settings: ImagePresetSettings) => {
+    setWidth(settings.width ?? '');
+    setHeight(settings.height ?? '');
+    setMode(settings.mode);
+    setAnchor(settings.anchor);
+    if (settings.quality !== undefined) {
+      setEncodeMode('quality');
+      setQuality(settings.quality);
     }
   };
 
+  const currentPresetSettings = sanitizeImagePresetSettings({
+    width: width === '' ? null : width,
+    height: height === '' ? null : height,
+    mode,
+    anchor,
+    quality: encodeMode === 'quality' ? quality ?? undefined : undefined,
+  });
+
+  const updateWatermark = (changes: Partial<WatermarkOptions>) =>
+    setWatermark(prev => ({ ...prev, ...changes }));
+
+  const rotateBy = (degrees: 90 | 270) => {
+    setTransform(prev => ({ ...prev, rotate: ((prev.rotate + degrees) % 360) as ImageTransform['rotate'] }));
+  };
+
+  const handleFiles = (newFiles: File[], fileErrors: string[]) => {
+    setSelectedFiles(newFiles);
+    setPreviewIndex(0);
+    setResults([]);
+    setComparedIndex(null);
+    setError(fileErrors.length > 0 ? fileErrors.join('\n') : null);
+    const generation = ++probeGenerationRef.current;
+    setIsProbing(newFiles.length > 0);
+
+    // Probe a few at a time; decoding hundreds of images at once would exhaust memory.
+    mapWithConcurrency(newFiles, 4, async (file) => {
+      try {
+          const { width: originalWidth, height: originalHeight } = await getImageSize(file);
+          return {
+          file,
+          status: 'pending' as const,
+          progressLog: [] as string[],
+          progressPercent: 0,
+          originalWidth,
+          originalHeight,
+          };
+      } catch (e) {
+           return {
+              file,
+              status: 'error' as const,
+              progressLog: ['Failed to load image size'],
+              progressPercent: 0,
+              error: 'Invalid image file'
+          };
+      }
+    }).then(initialResults => {
+      if (generation !== probeGenerationRef.current) return;
+      setResults(initialResults);
+      progressEndRefs.current = initialResults.map(() => null);
+      setIsProbing(false);
+    });
+  };
+
   const updateProgress = useCallback((fileIndex: number, message: string, percent?: number) => {
     setResults(prevResults => {
       const newResults = [...prevResults];
@@ -139,13 +300,27 @@ export function ImagePage() {
     const targetWidth = width === '' ? null : Number(width);
     const targetHeight = height === '' ? null : Number(height);
 
-    if (targetWidth === null && targetHeight === null) {
-      setError('Please specify at least one parameter: width or height.');
+    const reencodesLossyFile = (encodeMode === 'size' || quality !== null) && selectedFiles.some(file =>
+      isLossyImageExtension(file.name.split('.').pop()?.toLowerCase() as ImageExtensions)
+    );
+    const activeCrop = cropEnabled ? crop ?? undefined : undefined;
+    const activeWatermark = watermarkEnabled && isWatermarkActive(watermark) ? watermark : undefined;
+    if (watermarkEnabled && !activeWatermark) {
+      setError(watermark.kind === 'logo' ? 'Please choose a logo image for the watermark.' : 'Please enter the watermark text.');
+      return;
+    }
+    if (targetWidth === null && targetHeight === null && !reencodesLossyFile && !activeCrop && !activeWatermark) {
+      setError('Please specify at least one parameter: width, height, quality, a crop area or a watermark.');
+      return;
+    }
+
+    if (encodeMode === 'size' && (maxSizeKB === '' || maxSizeKB <= 0)) {
+      setError('Please specify a positive target file size.');
       return;
     }
 
-    if (targetWidth !== null && targetHeight !== null) {
-      setError('Please specify either width or height, not both.');
+    if ((mode === 'contain' || mode === 'cover') && (targetWidth === null || targetHeight === null)) {
+      setError('Contain and cover modes require both width and height.');
       return;
     }
 
@@ -159,41 +334,73 @@ export function ImagePage() {
 
     const initialResults: ProcessingResult[] = results.map(r => ({
       ...r,
+      transformedWidth: rotatedSize(r)?.width,
+      transformedHeight: rotatedSize(r)?.height,
       status: r.status === 'error' ? 'error' : 'pending', // Keep existing errors
       progressLog: [],
       progressPercent: 0,
+      released: false,
     }));
+    results.forEach(r => {
+      if (r.outputUrl) {
+        URL.revokeObjectURL(r.outputUrl);
+      }
+    });
     setResults(initialResults);
+    setComparedIndex(null);
     progressEndRefs.current = initialResults.map(() => null);
 
-    for (let i = 0; i < selectedFiles.length; i++) {
-      if (initialResults[i].status === 'error') continue;
+    const resizeOptions: ResizeOptions = {
+      width: targetWidth,
+      height: targetHeight,
+      mode,
+      anchor,
+      background: transparentBackground ? 'transparent' : background,
+      filter,
+      quality: encodeMode === 'quality' && quality !== null ? quality / 100 : undefined,
+      maxBytes: encodeMode === 'size' ? Number(maxSizeKB) * 1024 : undefined,
+      metadata: metadataPolicy,
+      crop: activeCrop,
+      transform: isIdentityTransform(transform) ? undefined : transform,
+      watermark: activeWatermark,
+    };
+    setImageConcurrency(concurrency);
 
+    const processFile = async (i: number) => {
       const file = selectedFiles[i];
       const fileExt = file.name.split('.').pop()?.toLowerCase() as ImageExtensions;
-
-      setResults(prev => {
-        const newResults = [...prev];
-        newResults[i] = { ...newResults[i], status: 'processing', progressLog: ['Starting process...'] };
-        return newResults;
-      });
+      const estimate = estimateImageMemory(file, initialResults[i].originalWidth, initialResults[i].originalHeight);
 
       try {
-        const resultBlob = await resizeImage(
-          file,
-          targetWidth,
-          targetHeight,
-          fileExt,
-          (message, percent) => updateProgress(i, message, percent)
-        );
+        const resultBlob = await memoryQueue.run(estimate, () => {
+          setResults(prev => {
+            const newResults = [...prev];
+            newResults[i] = {
+              ...newResults[i],
+              status: 'processing',
+              progressLog: [`Estimated memory: ${formatMegabytes(estimate)}`, 'Waiting for a free worker...'],
+            };
+            return newResults;
+          });
+          return resizeImageInWorker(
+            file,
+            resizeOptions,
+            fileExt,
+            (message, percent) => updateProgress(i, message, percent)
+          );
+        });
 
         if (resultBlob) {
           const url = URL.createObjectURL(resultBlob);
+          // Used by the {w} and {h} file name tokens; formats the browser cannot show stay unknown.
+          const outputSize = await getImageSize(resultBlob).catch(() => undefined);
           setResults(prev => {
             const newResults = [...prev];
             newResults[i] = {
               ...newResults[i],
               status: 'success',
+              outputWidth: outputSize?.width,
+              outputHeight: outputSize?.height,
               outputBlob: resultBlob,
               outputUrl: url,
               progressLog: [...newResults[i].progressLog, 'Processing complete! Output image is ready.'],
@@ -228,21 +435,70 @@ export function ImagePage() {
           return newResults;
         });
       }
-    }
+    };
+
+    await Promise.all(
+      selectedFiles.map((_, i) => initialResults[i].status === 'error' ? Promise.resolve() : processFile(i))
+    );
 
     setIsProcessing(false);
   };
 
-  const handleDownload = (url: string | undefined, blob: Blob | undefined, originalFileName: string) => {
-    if (url && blob) {
-      const link = document.createElement('a');
-      link.href = url;
-      const fileExt = originalFileName.split('.').pop()?.toLowerCase() || 'jpg';
-      const baseName = originalFileName.split('.').slice(0, -1).join('.') || 'image';
-      link.download = `${baseName}_resized.${fileExt}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  const outputExtension = (originalFileName: string) => originalFileName.split('.').pop()?.toLowerCase() || 'jpg';
+
+  const outputFileName = (index: number) => {
+    const result = results[index];
+    return buildFileName(
+      fileNameTemplate,
+      {
+        name: baseNameOf(result.file.name),
+        w: result.outputWidth,
+        h: result.outputHeight,
+        index: formatIndexToken(index, results.length),
+      },
+      outputExtension(result.file.name),
+      result.outputBlob,
+      'image',
+    );
+  };
+
+  // Downloaded outputs are dropped from memory so long batches do not pile up blobs.
+  const releaseResults = (indices: number[]) => {
+    setResults(prev => prev.map((r, i) => {
+      if (!indices.includes(i)) return r;
+      if (r.outputUrl) {
+        URL.revokeObjectURL(r.outputUrl);
+      }
+      return { ...r, outputBlob: undefined, outputUrl: undefined, released: true };
+    }));
+  };
+
+  const handleDownload = async (index: number) => {
+    const result = results[index];
+    if (result.outputUrl && result.outputBlob) {
+      downloadBlob(result.outputBlob, await outputFileName(index), result.outputUrl);
+      // Give the browser a moment to start reading the blob before revoking it.
+      setTimeout(() => releaseResults([index]), 1000);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    const indices = results
+      .map((r, i) => (r.status === 'success' && r.outputBlob ? i : -1))
+      .filter(i => i >= 0);
+    if (indices.length === 0) return;
+    setIsZipping(true);
+    setError(null);
+    try {
+      await downloadAsZip(
+        await Promise.all(indices.map(async i => ({ name: await outputFileName(i), blob: results[i].outputBlob! }))),
+        'resized_images.zip',
+      );
+      setTimeout(() => releaseResults(indices), 1000);
+    } catch (err) {
+      setError(`Failed to create ZIP archive: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsZipping(false);
     }
   };
 
@@ -252,15 +508,30 @@ export function ImagePage() {
         URL.revokeObjectURL(r.outputUrl);
       }
     });
+    probeGenerationRef.current++;
+    setIsProbing(false);
     setSelectedFiles([]);
     setWidth('');
     setHeight('');
+    setMode('fit');
+    setAnchor('center');
+    setBackground('#ffffff');
+    setTransparentBackground(false);
+    setFilter('lanczos3');
+    setMetadataPolicy('strip');
+    setTransform(identityTransform);
+    setPreviewIndex(0);
+    setCropEnabled(false);
+    setCrop(null);
+    setWatermarkEnabled(false);
+    setWatermark(defaultWatermark);
+    setEncodeMode('quality');
+    setQuality(null);
+    setMaxSizeKB('');
     setResults([]);
+    setComparedIndex(null);
     setIsProcessing(false);
     setError(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
   };
 
   const acceptTypes = fileExtensions.image.map(ext => `image/${ext},.${ext}`).join(',');
@@ -270,23 +541,20 @@ export function ImagePage() {
       <CardHeader>
         <CardTitle>Resize Multiple Images</CardTitle>
         <CardDescription>
-          Select up to {MAX_FILES} image files, specify desired dimensions (width/height), then click "Resize Images".
+          Select image files or whole folders, specify desired dimensions (width/height) and a resize mode, then click "Resize Images". Animated GIF, WebP and PNG keep all of their frames.
         </CardDescription>
       </CardHeader>
 
       <CardContent className="grid gap-6">
-        <FormItem>
-          <Label htmlFor="imageFiles">Select Image Files (Max {MAX_FILES})</Label>
-          <Input
-            ref={fileInputRef}
-            type="file"
-            id="imageFiles"
-            accept={acceptTypes}
-            onChange={handleFileChange}
-            disabled={isProcessing}
-            multiple
-            className="w-full"
-          />
+        <FileIntake
+          id="imageFiles"
+          label="Select Image Files"
+          extensions={fileExtensions.image}
+          accept={acceptTypes}
+          onFiles={handleFiles}
+          disabled={isProcessing}
+          multiple
+        >
           {selectedFiles.length > 0 && (
             <div className="mt-2 space-y-1">
               <p className="text-sm font-medium">Selected Files:</p>
@@ -296,14 +564,149 @@ export function ImagePage() {
                     {result.file.name}
                     ({(result.file.size / 1024 / 1024).toFixed(2)} MB)
                     {result.originalWidth && result.originalHeight &&
-                      <span className="ml-2">({result.originalWidth}x{result.originalHeight})</span>
+                      <span className="ml-2">
+                        ({result.originalWidth}x{result.originalHeight}
+                        {!isIdentityTransform(transform) && ` → ${rotatedSize(result)?.width}x${rotatedSize(result)?.height}`})
+                      </span>
                     }
                   </li>
                 ))}
               </ul>
             </div>
           )}
-        </FormItem>
+        </FileIntake>
+
+        {selectedFiles.length > 0 && (
+          <div className="space-y-3">
+            <Label>Rotate &amp; Flip</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => rotateBy(270)} disabled={isProcessing}>
+                <RotateCcw className="h-4 w-4" />
+                Rotate Left
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => rotateBy(90)} disabled={isProcessing}>
+                <RotateCw className="h-4 w-4" />
+                Rotate Right
+              </Button>
+              <Button
+                variant={transform.flipHorizontal ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTransform(prev => ({ ...prev, flipHorizontal: !prev.flipHorizontal }))}
+                disabled={isProcessing}
+              >
+                <FlipHorizontal2 className="h-4 w-4" />
+                Flip Horizontal
+              </Button>
+              <Button
+                variant={transform.flipVertical ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTransform(prev => ({ ...prev, flipVertical: !prev.flipVertical }))}
+                disabled={isProcessing}
+              >
+                <FlipVertical2 className="h-4 w-4" />
+                Flip Vertical
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setTransform(identityTransform)}
+                disabled={isProcessing || isIdentityTransform(transform)}
+              >
+                Reset
+              </Button>
+              {transform.rotate !== 0 && <span className="text-sm text-muted-foreground">Rotation: {transform.rotate}°</span>}
+            </div>
+            <FormItem>
+              <Label htmlFor="straighten">Straighten: {transform.straighten}°</Label>
+              <Input
+                type="range"
+                id="straighten"
+                value={transform.straighten}
+                onChange={(e) => setTransform(prev => ({ ...prev, straighten: parseFloat(e.target.value) }))}
+                min="-45"
+                max="45"
+                step="0.5"
+                disabled={isProcessing}
+                className="w-full px-0"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Empty corners are cropped away automatically</p>
+            </FormItem>
+
+            {(!isIdentityTransform(transform) || cropEnabled) && selectedFiles.length > 1 && (
+              <FormItem>
+                <Label htmlFor="previewFile">Preview File</Label>
+                <Select value={String(previewIndex)} onValueChange={(value) => setPreviewIndex(Number(value))}>
+                  <SelectTrigger id="previewFile" className="w-full">
+                    <SelectValue placeholder="Select file" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {selectedFiles.map((file, i) => (
+                      <SelectItem key={i} value={String(i)}>{file.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+
+            {!isIdentityTransform(transform) && !cropEnabled && (
+              previewUrl && preview ? (
+                <div className="space-y-1">
+                  <img
+                    src={previewUrl}
+                    alt="Transform preview"
+                    className="max-h-[300px] max-w-full mx-auto rounded-md border bg-muted"
+                  />
+                  <p className="text-xs text-center text-muted-foreground">
+                    {selectedFiles[previewIndex]?.name}: {preview.width}x{preview.height} after rotation
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Rendering preview...</p>
+              )
+            )}
+
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={cropEnabled}
+                onChange={(e) => setCropEnabled(e.target.checked)}
+                disabled={isProcessing}
+              />
+              Crop before resizing
+            </label>
+            {cropEnabled && (
+              <>
+                {isIdentityTransform(transform) ? (
+                  <CropEditor image={selectedFiles[previewIndex] ?? selectedFiles[0]} value={crop} onChange={setCrop} disabled={isProcessing} />
+                ) : preview ? (
+                  <CropEditor
+                    image={preview.blob}
+                    imageSize={{ width: preview.width, height: preview.height }}
+                    value={crop}
+                    onChange={setCrop}
+                    disabled={isProcessing}
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Rendering preview...</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  The rectangle is drawn on {(selectedFiles[previewIndex] ?? selectedFiles[0]).name} after rotation and applied to every file in the batch, scaled to each file's size.
+                  Width and height below then refer to the cropped area.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        <PresetPicker
+          tool="image"
+          builtIns={builtInImagePresets}
+          sanitize={sanitizeImagePresetSettings}
+          current={currentPresetSettings}
+          onApply={applyPreset}
+          onError={setError}
+          disabled={isProcessing}
+        />
 
         <div className="space-y-2">
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -313,12 +716,7 @@ export function ImagePage() {
                 type="number"
                 id="width"
                 value={width}
-                onChange={(e) => {
-                  setWidth(e.target.value === '' ? '' : parseInt(e.target.value, 10));
-                  if (e.target.value !== '') {
-                    setHeight('');
-                  }
-                }}
+                onChange={(e) => setWidth(e.target.value === '' ? '' : parseInt(e.target.value, 10))}
                 placeholder="Auto"
                 min="1"
                 disabled={isProcessing}
@@ -333,12 +731,7 @@ export function ImagePage() {
                 type="number"
                 id="height"
                 value={height}
-                onChange={(e) => {
-                  setHeight(e.target.value === '' ? '' : parseInt(e.target.value, 10));
-                  if (e.target.value !== '') {
-                    setWidth('');
-                  }
-                }}
+                onChange={(e) => setHeight(e.target.value === '' ? '' : parseInt(e.target.value, 10))}
                 placeholder="Auto"
                 min="1"
                 disabled={isProcessing}
@@ -347,18 +740,410 @@ export function ImagePage() {
               <p className="text-xs text-muted-foreground mt-1">Leave blank for auto</p>
             </FormItem>
           </div>
-          <p className="text-xs text-yellow-600 dark:text-yellow-400">
-            Note: Please specify either Width or Height, not both.
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <FormItem>
+              <Label htmlFor="resizeMode">Resize Mode</Label>
+              <Select
+                value={mode}
+                onValueChange={(value) => setMode(value as ResizeMode)}
+                disabled={isProcessing}
+              >
+                <SelectTrigger id="resizeMode" className="w-full">
+                  <SelectValue placeholder="Select mode" />
+                </SelectTrigger>
+                <SelectContent>
+                  {resizeModes.map(m => (
+                    <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+
+            <FormItem>
+              <Label htmlFor="resampleFilter">Resampling Filter</Label>
+              <Select
+                value={filter}
+                onValueChange={(value) => setFilter(value as ResampleFilter)}
+                disabled={isProcessing}
+              >
+                <SelectTrigger id="resampleFilter" className="w-full">
+                  <SelectValue placeholder="Select filter" />
+                </SelectTrigger>
+                <SelectContent>
+                  {resampleFilters.map(f => (
+                    <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+
+            {(mode === 'contain' || mode === 'cover') && (
+              <FormItem>
+                <Label htmlFor="resizeAnchor">{mode === 'cover' ? 'Crop Anchor' : 'Image Position'}</Label>
+                <Select
+                  value={anchor}
+                  onValueChange={(value) => setAnchor(value as ResizeAnchor)}
+                  disabled={isProcessing}
+                >
+                  <SelectTrigger id="resizeAnchor" className="w-full">
+                    <SelectValue placeholder="Select anchor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {resizeAnchors.map(a => (
+                      <SelectItem key={a} value={a}>{a}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+
+            {mode === 'contain' && (
+              <FormItem>
+                <Label htmlFor="background">Background Color</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="color"
+                    id="background"
+                    value={background}
+                    onChange={(e) => setBackground(e.target.value)}
+                    disabled={isProcessing || transparentBackground}
+                    className="w-16 p-1"
+                  />
+                  <label className="flex items-center gap-1 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={transparentBackground}
+                      onChange={(e) => setTransparentBackground(e.target.checked)}
+                      disabled={isProcessing}
+                    />
+                    Transparent
+                  </label>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">JPEG output is filled with white when transparent</p>
+              </FormItem>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Fit and Shrink only keep the aspect ratio inside the given box. Contain and Cover produce exactly Width x Height.
+            All filters except "Browser default" give identical output in every browser.
           </p>
         </div>
 
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              checked={watermarkEnabled}
+              onChange={(e) => setWatermarkEnabled(e.target.checked)}
+              disabled={isProcessing}
+            />
+            Watermark
+          </label>
+          {watermarkEnabled && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <FormItem>
+                  <Label htmlFor="watermarkKind">Type</Label>
+                  <Select
+                    value={watermark.kind}
+                    onValueChange={(value) => updateWatermark({ kind: value as WatermarkOptions['kind'] })}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger id="watermarkKind" className="w-full">
+                      <SelectValue placeholder="Select type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="text">Text</SelectItem>
+                      <SelectItem value="logo">Logo</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+
+                {watermark.kind === 'text' ? (
+                  <>
+                    <FormItem>
+                      <Label htmlFor="watermarkText">Text</Label>
+                      <Input
+                        type="text"
+                        id="watermarkText"
+                        value={watermark.text}
+                        onChange={(e) => updateWatermark({ text: e.target.value })}
+                        disabled={isProcessing}
+                        className="w-full"
+                      />
+                    </FormItem>
+                    <FormItem>
+                      <Label htmlFor="watermarkFont">Font</Label>
+                      <Select
+                        value={watermark.font}
+                        onValueChange={(value) => updateWatermark({ font: value })}
+                        disabled={isProcessing}
+                      >
+                        <SelectTrigger id="watermarkFont" className="w-full">
+                          <SelectValue placeholder="Select font" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {watermarkFonts.map(f => (
+                            <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                    <FormItem>
+                      <Label htmlFor="watermarkColor">Color</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="color"
+                          id="watermarkColor"
+                          value={watermark.color}
+                          onChange={(e) => updateWatermark({ color: e.target.value })}
+                          disabled={isProcessing}
+                          className="w-16 p-1"
+                        />
+                        <label className="flex items-center gap-1 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={watermark.shadow}
+                            onChange={(e) => updateWatermark({ shadow: e.target.checked })}
+                            disabled={isProcessing}
+                          />
+                          Shadow
+                        </label>
+                      </div>
+                    </FormItem>
+                  </>
+                ) : (
+                  <FormItem className="sm:col-span-2">
+                    <Label htmlFor="watermarkLogo">Logo (PNG)</Label>
+                    <Input
+                      type="file"
+                      id="watermarkLogo"
+                      accept=".png,image/png"
+                      onChange={(e) => updateWatermark({ logo: e.target.files?.[0] })}
+                      disabled={isProcessing}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {watermark.logo ? `Using ${watermark.logo instanceof File ? watermark.logo.name : 'logo'}. ` : ''}
+                      Transparent areas of the PNG stay transparent.
+                    </p>
+                  </FormItem>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormItem>
+                  <Label htmlFor="watermarkSize">Size: {watermark.sizePercent}%</Label>
+                  <Input
+                    type="range"
+                    id="watermarkSize"
+                    value={watermark.sizePercent}
+                    onChange={(e) => updateWatermark({ sizePercent: parseFloat(e.target.value) })}
+                    min="1"
+                    max="50"
+                    step="0.5"
+                    disabled={isProcessing}
+                    className="w-full px-0"
+                  />
+                </FormItem>
+                <FormItem>
+                  <Label htmlFor="watermarkOpacity">Opacity: {Math.round(watermark.opacity * 100)}%</Label>
+                  <Input
+                    type="range"
+                    id="watermarkOpacity"
+                    value={Math.round(watermark.opacity * 100)}
+                    onChange={(e) => updateWatermark({ opacity: parseInt(e.target.value, 10) / 100 })}
+                    min="5"
+                    max="100"
+                    disabled={isProcessing}
+                    className="w-full px-0"
+                  />
+                </FormItem>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <FormItem>
+                  <Label htmlFor="watermarkPlacement">Placement</Label>
+                  <Select
+                    value={watermark.placement}
+                    onValueChange={(value) => updateWatermark({ placement: value as WatermarkOptions['placement'] })}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger id="watermarkPlacement" className="w-full">
+                      <SelectValue placeholder="Select placement" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="anchor">Positioned</SelectItem>
+                      <SelectItem value="tile">Tiled diagonally</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+                {watermark.placement === 'anchor' && (
+                  <>
+                    <FormItem>
+                      <Label htmlFor="watermarkAnchor">Position</Label>
+                      <Select
+                        value={watermark.anchor}
+                        onValueChange={(value) => updateWatermark({ anchor: value as ResizeAnchor })}
+                        disabled={isProcessing}
+                      >
+                        <SelectTrigger id="watermarkAnchor" className="w-full">
+                          <SelectValue placeholder="Select position" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {resizeAnchors.map(a => (
+                            <SelectItem key={a} value={a}>{a}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                    <FormItem>
+                      <Label htmlFor="watermarkMargin">Margin: {watermark.marginPercent}%</Label>
+                      <Input
+                        type="range"
+                        id="watermarkMargin"
+                        value={watermark.marginPercent}
+                        onChange={(e) => updateWatermark({ marginPercent: parseFloat(e.target.value) })}
+                        min="0"
+                        max="20"
+                        step="0.5"
+                        disabled={isProcessing}
+                        className="w-full px-0"
+                      />
+                    </FormItem>
+                  </>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Size and margin are relative to the shorter side of each output, so the watermark looks the same at every size.
+                It is drawn after resizing, on every frame of animated images.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <FormItem>
+              <Label htmlFor="encodeMode">Output Encoding</Label>
+              <Select
+                value={encodeMode}
+                onValueChange={(value) => setEncodeMode(value as 'quality' | 'size')}
+                disabled={isProcessing}
+              >
+                <SelectTrigger id="encodeMode" className="w-full">
+                  <SelectValue placeholder="Select encoding" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="quality">Fixed quality</SelectItem>
+                  <SelectItem value="size">Target max file size</SelectItem>
+                </SelectContent>
+              </Select>
+            </FormItem>
+
+            {encodeMode === 'quality' ? (
+              <FormItem className="sm:col-span-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="quality">Quality: {quality ?? 'keep original'}</Label>
+                  {quality !== null && (
+                    <Button variant="ghost" size="sm" onClick={() => setQuality(null)} disabled={isProcessing}>
+                      Keep original
+                    </Button>
+                  )}
+                </div>
+                <Input
+                  type="range"
+                  id="quality"
+                  value={quality ?? 92}
+                  onChange={(e) => setQuality(parseInt(e.target.value, 10))}
+                  min="1"
+                  max="100"
+                  disabled={isProcessing}
+                  className="w-full px-0"
+                />
+              </FormItem>
+            ) : (
+              <FormItem>
+                <Label htmlFor="maxSize">Max File Size (KB)</Label>
+                <Input
+                  type="number"
+                  id="maxSize"
+                  value={maxSizeKB}
+                  onChange={(e) => setMaxSizeKB(e.target.value === '' ? '' : parseInt(e.target.value, 10))}
+                  placeholder="e.g. 200"
+                  min="1"
+                  disabled={isProcessing}
+                  className="w-full"
+                />
+              </FormItem>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Applies to JPEG, WebP and AVIF output. PNG and GIF are always lossless.
+            Unless a quality is chosen, lossy files that need no other change are passed through untouched.
+          </p>
+        </div>
+
+        <FormItem className="max-w-sm">
+          <Label htmlFor="metadataPolicy">Metadata</Label>
+          <Select
+            value={metadataPolicy}
+            onValueChange={(value) => setMetadataPolicy(value as MetadataPolicy)}
+            disabled={isProcessing}
+          >
+            <SelectTrigger id="metadataPolicy" className="w-full">
+              <SelectValue placeholder="Select metadata handling" />
+            </SelectTrigger>
+            <SelectContent>
+              {metadataPolicies.map(p => (
+                <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground mt-1">
+            Photos are always rotated according to their EXIF orientation. Metadata can be kept in JPEG, PNG and WebP output.
+          </p>
+        </FormItem>
+
+        <div className="max-w-xl">
+          <FileNameTemplate
+            id="fileNameTemplate"
+            template={fileNameTemplate}
+            defaultTemplate={DEFAULT_FILE_NAME_TEMPLATE}
+            onChange={setFileNameTemplate}
+            tokens={['name', 'w', 'h', 'format', 'index', 'date', 'hash']}
+            sample={sampleFileNameValues()}
+            extension={outputExtension(sampleResult?.file.name ?? selectedFiles[0]?.name ?? 'photo.jpg')}
+            sampleBlob={sampleResult?.outputBlob}
+            disabled={isProcessing}
+          />
+        </div>
+
+        <FormItem className="max-w-xs">
+          <Label htmlFor="concurrency">Parallel Workers</Label>
+          <Input
+            type="number"
+            id="concurrency"
+            value={concurrency}
+            onChange={(e) => setConcurrency(Math.max(1, parseInt(e.target.value, 10) || 1))}
+            min="1"
+            max="16"
+            disabled={isProcessing}
+            className="w-full"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Number of images resized at the same time in background threads.
+            Large images wait until their estimated decoded size fits in {formatMegabytes(memoryBudget)}.
+          </p>
+        </FormItem>
+
         <div className="flex gap-2">
           <Button
             onClick={handleResizeClick}
-            disabled={isProcessing || selectedFiles.length === 0}
+            disabled={isProcessing || isProbing || selectedFiles.length === 0}
             className="flex-grow sm:flex-grow-0"
           >
-            {isProcessing ? 'Processing...' : `Resize ${selectedFiles.length > 0 ? selectedFiles.length : ''} Image(s)`}
+            {isProcessing ? 'Processing...' : isProbing ? 'Reading image sizes...' : `Resize ${selectedFiles.length > 0 ? selectedFiles.length : ''} Image(s)`}
           </Button>
           <Button
             onClick={handleClear}
@@ -382,7 +1167,19 @@ export function ImagePage() {
 
         {results.length > 0 && (
           <div className="space-y-6">
-            <h3 className="text-xl font-semibold border-b pb-2">Processing Results:</h3>
+            <div className="flex items-center justify-between gap-4 border-b pb-2">
+              <h3 className="text-xl font-semibold">Processing Results:</h3>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDownloadAll}
+                disabled={isZipping || !results.some(r => r.status === 'success' && r.outputBlob)}
+              >
+                <Archive className="h-4 w-4" />
+                {isZipping ? 'Creating ZIP...' : 'Download All as ZIP'}
+              </Button>
+            </div>
+            <BatchProgress items={results} />
             {results.map((result, index) => (
               <Card key={index} className="overflow-hidden">
                 <CardHeader className="bg-muted/50 p-4">
@@ -394,6 +1191,10 @@ export function ImagePage() {
                   </CardTitle>
                   <CardDescription className="text-xs">
                     Original size: {(result.file.size / 1024 / 1024).toFixed(2)} MB
+                    {result.originalWidth && result.originalHeight && `, ${result.originalWidth}x${result.originalHeight}`}
+                    {result.transformedWidth && result.transformedHeight &&
+                      (result.transformedWidth !== result.originalWidth || result.transformedHeight !== result.originalHeight) &&
+                      ` (${result.transformedWidth}x${result.transformedHeight} after rotation)`}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="p-4 grid gap-4">
@@ -421,22 +1222,30 @@ export function ImagePage() {
                     </Alert>
                   )}
 
+                  {result.status === 'success' && result.released && (
+                    <p className="text-sm text-muted-foreground">Downloaded. The output was released from memory.</p>
+                  )}
+
                   {result.status === 'success' && result.outputUrl && (
                     <div className="space-y-3">
                       <Label className="text-xs font-semibold">Result:</Label>
-                      <img
-                        src={result.outputUrl}
-                        alt="Resized Result"
-                        className="w-full max-w-sm rounded-md border bg-muted mx-auto"
-                        style={{ maxHeight: '300px', objectFit: 'contain' }}
-                      />
+                      {result.outputBlob && comparedIndex === index && (
+                        <ImageCompare original={result.file} output={result.outputBlob} />
+                      )}
                       <div className="flex items-center gap-4 flex-wrap">
                         <Button
                           size="sm"
-                          onClick={() => handleDownload(result.outputUrl, result.outputBlob, result.file.name)}
+                          onClick={() => handleDownload(index)}
                         >
                           Download Resized Image
                         </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setComparedIndex(comparedIndex === index ? null : index)}
+                        >
+                          {comparedIndex === index ? 'Hide Comparison' : 'Compare with Original'}
+                        </Button>
                         {result.outputBlob && (
                           <span className="text-sm text-muted-foreground">
                             Output size: {(result.outputBlob.size / 1024 / 1024).toFixed(2)} MB
@@ -0,0 +1,468 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router';
+import { getImageSize } from '../lib/imageutils';
+import { terminateImageWorkers } from '../lib/imageworkerpool';
+import { resampleFilters, type ResampleFilter } from '../lib/resample';
+import { metadataPolicies, type MetadataPolicy } from '../lib/imagemetadata';
+import {
+  buildManifest,
+  buildPictureSnippet,
+  defaultWidthLadder,
+  generateResponsiveSet,
+  parseWidthList,
+  planWidths,
+  responsiveFormats,
+  type ResponsiveFormat,
+  type ResponsiveVariant,
+} from '../lib/responsiveimage';
+import { downloadBlob, downloadAsZip } from '../lib/downloadutils';
+import { readListParam, readNumberParam, useSyncSearchParams } from '../lib/urlstate';
+import { fileExtensions } from "../commons/fileconst";
+import { FileIntake } from '~/components/FileIntake';
+
+import { Button } from "~/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { FormItem } from "~/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Textarea } from "~/components/ui/textarea";
+import { Progress } from "~/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
+import { XCircle, Archive, Copy } from "lucide-react";
+
+interface SourceImage {
+  file: File;
+  width: number;
+  height: number;
+}
+
+const defaultFormats: ResponsiveFormat[] = ['avif', 'webp', 'jpg'];
+
+export function ResponsiveImagePage() {
+  // Widths, formats, quality and sizes start from the query string, e.g. ?widths=480,960&formats=webp
+  const [searchParams] = useSearchParams();
+  const [source, setSource] = useState<SourceImage | null>(null);
+  const [widthsText, setWidthsText] = useState<string>(() => {
+    const widths = parseWidthList(searchParams.get('widths') ?? '');
+    return (widths.length > 0 ? widths : defaultWidthLadder).join(', ');
+  });
+  const [formats, setFormats] = useState<ResponsiveFormat[]>(() =>
+    readListParam(searchParams, 'formats', responsiveFormats.map(f => f.value), defaultFormats));
+  const [quality, setQuality] = useState<number>(() => readNumberParam(searchParams, 'q', 80, 1, 100));
+  const [filter, setFilter] = useState<ResampleFilter>('lanczos3');
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>('strip');
+  const [sizes, setSizes] = useState<string>(() => searchParams.get('sizes') || '100vw');
+  const [alt, setAlt] = useState<string>('');
+  const [pathPrefix, setPathPrefix] = useState<string>('');
+  const [variants, setVariants] = useState<ResponsiveVariant[]>([]);
+  const [progressLog, setProgressLog] = useState<string[]>([]);
+  const [progressPercent, setProgressPercent] = useState<number>(0);
+  const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [isZipping, setIsZipping] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const progressEndRef = useRef<HTMLDivElement | null>(null);
+
+  const widthsParam = parseWidthList(widthsText).join(',');
+  const formatsParam = responsiveFormats.map(f => f.value).filter(f => formats.includes(f)).join(',');
+  useSyncSearchParams({
+    widths: widthsParam !== defaultWidthLadder.join(',') && widthsParam,
+    formats: formatsParam !== defaultFormats.join(',') && formatsParam,
+    q: quality !== 80 && quality,
+    sizes: sizes !== '100vw' && sizes,
+  });
+
+  useEffect(() => {
+    progressEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [progressLog]);
+
+  useEffect(() => {
+    return () => {
+      terminateImageWorkers();
+    };
+  }, []);
+
+  const baseName = source ? (source.file.name.split('.').slice(0, -1).join('.') || 'image') : 'image';
+  const snippetOptions = { alt, sizes, pathPrefix };
+  const snippet = buildPictureSnippet(variants, snippetOptions);
+  const manifest = source && variants.length > 0
+    ? buildManifest(
+        { name: source.file.name, width: source.width, height: source.height, bytes: source.file.size },
+        variants,
+        snippetOptions,
+      )
+    : '';
+
+  const handleFiles = (files: File[], fileErrors: string[]) => {
+    setError(fileErrors.length > 0 ? fileErrors.join('\n') : null);
+    if (files.length === 0) return;
+    const file = files[0];
+    setVariants([]);
+    setProgressLog([]);
+    setProgressPercent(0);
+    getImageSize(file)
+      .then(({ width, height }) => setSource({ file, width, height }))
+      .catch(() => {
+        setSource(null);
+        setError(`Invalid image file: "${file.name}"`);
+      });
+  };
+
+  const toggleFormat = (format: ResponsiveFormat, checked: boolean) => {
+    setFormats(prev => checked
+      ? responsiveFormats.map(f => f.value).filter(f => f === format || prev.includes(f))
+      : prev.filter(f => f !== format));
+  };
+
+  const handleGenerateClick = async () => {
+    if (!source) {
+      setError('Please select an image file.');
+      return;
+    }
+    const widths = parseWidthList(widthsText);
+    if (widths.length === 0) {
+      setError('Please specify at least one width, e.g. 320, 640, 1280.');
+      return;
+    }
+    if (formats.length === 0) {
+      setError('Please select at least one output format.');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    setVariants([]);
+    setProgressLog([]);
+    setProgressPercent(0);
+
+    try {
+      const result = await generateResponsiveSet(
+        source.file,
+        source.width,
+        baseName,
+        { widths, formats, quality: quality / 100, filter, metadata: metadataPolicy },
+        (message, percent) => {
+          setProgressLog(prev => [...prev, message]);
+          if (percent !== undefined) setProgressPercent(percent);
+        },
+      );
+      setVariants(result);
+    } catch (err) {
+      console.error(err);
+      setError(`Generation failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    setError(null);
+    try {
+      await downloadAsZip([
+        ...variants.map(v => ({ name: v.fileName, blob: v.blob })),
+        { name: `${baseName}.manifest.json`, blob: new Blob([manifest], { type: 'application/json' }) },
+        { name: `${baseName}.picture.html`, blob: new Blob([snippet + '\n'], { type: 'text/html' }) },
+      ], `${baseName}_responsive.zip`);
+    } catch (err) {
+      setError(`Failed to create ZIP archive: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleCopy = (text: string) => {
+    navigator.clipboard.writeText(text).catch(() => setError('Could not access the clipboard.'));
+  };
+
+  const handleClear = () => {
+    setSource(null);
+    setWidthsText(defaultWidthLadder.join(', '));
+    setFormats(defaultFormats);
+    setQuality(80);
+    setFilter('lanczos3');
+    setMetadataPolicy('strip');
+    setSizes('100vw');
+    setAlt('');
+    setPathPrefix('');
+    setVariants([]);
+    setProgressLog([]);
+    setProgressPercent(0);
+    setError(null);
+  };
+
+  const acceptTypes = fileExtensions.image.map(ext => `image/${ext},.${ext}`).join(',');
+  const plannedWidths = source ? planWidths(parseWidthList(widthsText), source.width) : [];
+
+  return (
+    <Card className="max-w-4xl mx-auto my-4">
+      <CardHeader>
+        <CardTitle>Responsive Image Set</CardTitle>
+        <CardDescription>
+          Upload one image to generate a ladder of widths in several formats, together with a ready-to-paste &lt;picture&gt; snippet and a JSON manifest.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="grid gap-6">
+        <FileIntake
+          id="sourceImage"
+          label="Select Source Image"
+          extensions={fileExtensions.image}
+          accept={acceptTypes}
+          onFiles={handleFiles}
+          disabled={isProcessing}
+        >
+          {source && (
+            <p className="text-sm text-muted-foreground">
+              Selected: {source.file.name} ({source.width}x{source.height}, {(source.file.size / 1024 / 1024).toFixed(2)} MB)
+            </p>
+          )}
+        </FileIntake>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormItem>
+            <Label htmlFor="widths">Widths (px)</Label>
+            <Input
+              type="text"
+              id="widths"
+              value={widthsText}
+              onChange={(e) => setWidthsText(e.target.value)}
+              placeholder="320, 640, 960, 1280, 1920"
+              disabled={isProcessing}
+              className="w-full"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              {source
+                ? `Will generate: ${plannedWidths.join(', ') || '-'} (never wider than the source)`
+                : 'Widths larger than the source are replaced by the source width'}
+            </p>
+          </FormItem>
+
+          <FormItem>
+            <Label>Formats</Label>
+            <div className="flex flex-wrap gap-4 h-9 items-center">
+              {responsiveFormats.map(f => (
+                <label key={f.value} className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formats.includes(f.value)}
+                    onChange={(e) => toggleFormat(f.value, e.target.checked)}
+                    disabled={isProcessing}
+                  />
+                  {f.label}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">AVIF encoding depends on browser support</p>
+          </FormItem>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <FormItem>
+            <Label htmlFor="quality">Quality: {quality}</Label>
+            <Input
+              type="range"
+              id="quality"
+              value={quality}
+              onChange={(e) => setQuality(parseInt(e.target.value, 10))}
+              min="1"
+              max="100"
+              disabled={isProcessing}
+              className="w-full px-0"
+            />
+          </FormItem>
+
+          <FormItem>
+            <Label htmlFor="filter">Resampling Filter</Label>
+            <Select
+              value={filter}
+              onValueChange={(value) => setFilter(value as ResampleFilter)}
+              disabled={isProcessing}
+            >
+              <SelectTrigger id="filter" className="w-full">
+                <SelectValue placeholder="Select filter" />
+              </SelectTrigger>
+              <SelectContent>
+                {resampleFilters.map(f => (
+                  <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormItem>
+
+          <FormItem>
+            <Label htmlFor="metadata">Metadata</Label>
+            <Select
+              value={metadataPolicy}
+              onValueChange={(value) => setMetadataPolicy(value as MetadataPolicy)}
+              disabled={isProcessing}
+            >
+              <SelectTrigger id="metadata" className="w-full">
+                <SelectValue placeholder="Select metadata handling" />
+              </SelectTrigger>
+              <SelectContent>
+                {metadataPolicies.map(p => (
+                  <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormItem>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <FormItem>
+            <Label htmlFor="sizes">sizes attribute</Label>
+            <Input
+              type="text"
+              id="sizes"
+              value={sizes}
+              onChange={(e) => setSizes(e.target.value)}
+              placeholder="(min-width: 768px) 50vw, 100vw"
+              className="w-full"
+            />
+          </FormItem>
+          <FormItem>
+            <Label htmlFor="alt">Alt text</Label>
+            <Input
+              type="text"
+              id="alt"
+              value={alt}
+              onChange={(e) => setAlt(e.target.value)}
+              className="w-full"
+            />
+          </FormItem>
+          <FormItem>
+            <Label htmlFor="pathPrefix">Path prefix</Label>
+            <Input
+              type="text"
+              id="pathPrefix"
+              value={pathPrefix}
+              onChange={(e) => setPathPrefix(e.target.value)}
+              placeholder="/images/"
+              className="w-full"
+            />
+          </FormItem>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={handleGenerateClick}
+            disabled={isProcessing || !source}
+            className="flex-grow sm:flex-grow-0"
+          >
+            {isProcessing ? 'Processing...' : 'Generate Image Set'}
+          </Button>
+          <Button
+            onClick={handleClear}
+            disabled={isProcessing}
+            variant="outline"
+            className="flex-grow sm:flex-grow-0"
+          >
+            Clear All
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error.split('\n').map((line, i) => <p key={i}>{line}</p>)}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {progressLog.length > 0 && (
+          <div className="space-y-2">
+            <Progress value={progressPercent} className="w-full h-2" />
+            <Label className="text-xs font-semibold">Progress Log:</Label>
+            <pre className="max-h-40 overflow-y-auto rounded-md border bg-muted p-3 text-xs text-muted-foreground whitespace-pre-wrap break-words">
+              {progressLog.join('\n')}
+              <div ref={progressEndRef} />
+            </pre>
+          </div>
+        )}
+
+        {variants.length > 0 && (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between gap-4 border-b pb-2">
+              <h3 className="text-xl font-semibold">Generated Files:</h3>
+              <Button variant="outline" size="sm" onClick={handleDownloadAll} disabled={isZipping}>
+                <Archive className="h-4 w-4" />
+                {isZipping ? 'Creating ZIP...' : 'Download All as ZIP'}
+              </Button>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th className="py-1 font-medium">File</th>
+                  <th className="py-1 font-medium">Dimensions</th>
+                  <th className="py-1 font-medium text-right">Size</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {variants.map(v => (
+                  <tr key={v.fileName} className="border-b last:border-0">
+                    <td className="py-1 font-mono text-xs">{v.fileName}</td>
+                    <td className="py-1">{v.width}x{v.height}</td>
+                    <td className="py-1 text-right">{(v.blob.size / 1024).toFixed(1)} KB</td>
+                    <td className="py-1 text-right">
+                      <Button size="sm" variant="ghost" onClick={() => downloadBlob(v.blob, v.fileName)}>
+                        Download
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="snippet" className="text-xs font-semibold">HTML Snippet:</Label>
+                <Button size="sm" variant="outline" onClick={() => handleCopy(snippet)}>
+                  <Copy className="h-4 w-4" />
+                  Copy
+                </Button>
+              </div>
+              <Textarea id="snippet" value={snippet} readOnly rows={8} className="font-mono text-xs" />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="manifest" className="text-xs font-semibold">Manifest (JSON):</Label>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleCopy(manifest)}>
+                    <Copy className="h-4 w-4" />
+                    Copy
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => downloadBlob(new Blob([manifest], { type: 'application/json' }), `${baseName}.manifest.json`)}
+                  >
+                    Download
+                  </Button>
+                </div>
+              </div>
+              <Textarea id="manifest" value={manifest} readOnly rows={10} className="font-mono text-xs" />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
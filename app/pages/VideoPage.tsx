@@ -1,6 +1,71 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { resizeVideo, getVideoSize } from '../lib/videoutils'; // videoutilsからresizeVideo関数をインポート
+import { useSearchParams } from 'react-router';
+import { resizeVideo, extractAudio, videoToAnimation, getVideoInfo, getVideoSize } from '../lib/videoutils';
+import { getImageSize } from '../lib/imageutils';
 import { fileExtensions, type VideoExtensions } from '../commons/fileconst';
+import { downloadBlob, downloadAsZip } from '../lib/downloadutils';
+import {
+  createMemoryQueue,
+  defaultMemoryBudget,
+  estimateVideoMemory,
+  formatMegabytes,
+  mapWithConcurrency,
+} from '../lib/memoryqueue';
+import { baseNameOf, buildFileName, formatIndexToken } from '../lib/filenametemplate';
+import {
+  builtInVideoPresets,
+  sanitizeVideoPresetSettings,
+  type VideoPresetSettings,
+} from '../lib/presets';
+import { readEnumParam, readIntParam, readNumberParam, useSyncSearchParams } from '../lib/urlstate';
+import { clampTrim, formatTimecode, isFullRange, type TrimRange } from '../lib/trim';
+import {
+  ANIMATION_DEFAULT_FPS,
+  animationFormatNames,
+  animationFormats,
+  audioBitrates,
+  audioCodecs,
+  audioExtractFormatNames,
+  audioExtractFormats,
+  audioSampleRates,
+  crfRanges,
+  defaultAnimationOptions,
+  defaultAudioSettings,
+  defaultRateControl,
+  defaultVideoOutput,
+  encoderSpeeds,
+  estimateAnimationSize,
+  isDefaultAudio,
+  isDefaultRateControl,
+  loudnessTargets,
+  matchesVideoOutput,
+  paletteDithers,
+  rateControlModes,
+  targetSizeBytes,
+  targetSizePresets,
+  videoCodecs,
+  videoContainerNames,
+  videoContainers,
+  withContainer,
+  withVideoCodec,
+  type AnimationFormat,
+  type AnimationOptions,
+  type AudioCodec,
+  type AudioExtractFormat,
+  type AudioSettings,
+  type EncoderSpeed,
+  type PaletteDither,
+  type RateControlMode,
+  type VideoCodec,
+  type VideoContainer,
+  type VideoOutputOptions,
+  type VideoRateControl,
+} from '../lib/videoformats';
+import { FileIntake } from '~/components/FileIntake';
+import { FileNameTemplate, useFileNameTemplate } from '~/components/FileNameTemplate';
+import { PresetPicker } from '~/components/PresetPicker';
+import { BatchProgress } from '~/components/BatchProgress';
+import { VideoTrimmer } from '~/components/VideoTrimmer';
 
 import { Button } from '~/components/ui/button';
 import {
@@ -12,14 +77,23 @@ import {
 } from "~/components/ui/card";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
 // FormItem は react-hook-form なしでもレイアウトに使える
 import { FormItem } from "~/components/ui/form"; // FormItemのみインポート
 import { Progress } from "~/components/ui/progress"; // 進捗バーを追加 (任意)
 import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert"; // アラート表示用
-import { XCircle } from "lucide-react"; // エラーアイコン用
+import { XCircle, Archive } from "lucide-react"; // エラーアイコン用
 
-const defaultOutputExtension = 'mp4';
-const MAX_FILES = 3; // 最大ファイル数
+const DEFAULT_FILE_NAME_TEMPLATE = '{name}_resized';
+
+// 入力ファイルの拡張子 (形式の判定とffmpegの入力ファイル名に使う)
+const extensionOf = (file: File) => file.name.split('.').pop()?.toLowerCase() as VideoExtensions;
 
 // 各ファイルの処理結果を管理するインターフェース
 interface ProcessingResult {
@@ -27,22 +101,123 @@ interface ProcessingResult {
   status: 'pending' | 'processing' | 'success' | 'error';
   originalWidth?: number; // オリジナル動画の幅
   originalHeight?: number; // オリジナル動画の高さ
+  duration?: number; // オリジナル動画の長さ (秒、ブラウザで読めない場合は未設定)
+  trim?: TrimRange; // 実際に切り出した範囲
+  outputWidth?: number; // 出力動画の幅 (ファイル名テンプレート用)
+  outputHeight?: number;
+  outputFps?: number; // 指定したFPS (元のままなら未設定)
+  outputFormat?: VideoOutputOptions; // 出力のコンテナとコーデック (拡張子・MIMEタイプもこれに従う)
+  animationFormat?: AnimationFormat; // GIF/WebPアニメーションとして出力した場合
+  targetSize?: number; // 「ファイルサイズ以下」モードの目標 (バイト)
   outputBlob?: Blob;
   outputUrl?: string;
   progressLog: string[];
   error?: string;
   progressPercent?: number; // 進捗率 (任意)
+  released?: boolean; // ダウンロード済みで出力を解放した
+  audioFormat?: AudioExtractFormat; // 書き出した音声の形式
+  audioBlob?: Blob; // 書き出した音声 (別ファイルとしてダウンロード)
+  audioUrl?: string;
+  audioError?: string; // 音声の書き出しだけ失敗した場合
+  audioReleased?: boolean;
 }
 
+// 結果のオブジェクトURLを解放
+const revokeResultUrls = (r: ProcessingResult) => {
+  if (r.outputUrl) URL.revokeObjectURL(r.outputUrl);
+  if (r.audioUrl) URL.revokeObjectURL(r.audioUrl);
+};
+
 export function VideoPage() {
+  // 設定はURLのクエリから復元 (例: /video?w=1280&fps=30)
+  const [searchParams] = useSearchParams();
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
-  const [width, setWidth] = useState<number | ''>('');
-  const [height, setHeight] = useState<number | ''>('');
-  const [fps, setFps] = useState<number | ''>('');
+  const [width, setWidth] = useState<number | ''>(() => readIntParam(searchParams, 'w'));
+  const [height, setHeight] = useState<number | ''>(() => readIntParam(searchParams, 'h'));
+  const [fps, setFps] = useState<number | ''>(() => readIntParam(searchParams, 'fps'));
+  const [trimEnabled, setTrimEnabled] = useState<boolean>(false); // 開始・終了位置で切り出す
+  const [trim, setTrim] = useState<TrimRange | null>(null); // null は全体
+  const [previewIndex, setPreviewIndex] = useState<number>(0); // 範囲を選ぶファイル
+  // 出力コンテナとコーデック (URLの値がコンテナに合わなければ既定値)
+  const [output, setOutput] = useState<VideoOutputOptions>(() => {
+    const container = readEnumParam(searchParams, 'format', videoContainerNames, defaultVideoOutput.container);
+    const { videoCodecs: allowedVideo, audioCodecs: allowedAudio } = videoContainers[container];
+    const videoCodec = readEnumParam(searchParams, 'vcodec', allowedVideo, allowedVideo[0]);
+    const crfRange = crfRanges[videoCodec];
+    return {
+      container,
+      videoCodec,
+      audioCodec: readEnumParam(searchParams, 'acodec', allowedAudio, allowedAudio[0]),
+      rate: {
+        mode: readEnumParam(searchParams, 'rc', rateControlModes.map(m => m.value), defaultRateControl.mode),
+        crf: readNumberParam(searchParams, 'crf', crfRange.default, crfRange.min, crfRange.max),
+        bitrateKbps: readNumberParam(searchParams, 'kbps', defaultRateControl.bitrateKbps, 1, 200000),
+        targetSizeMB: readNumberParam(searchParams, 'mb', defaultRateControl.targetSizeMB, 1, 100000),
+        speed: readEnumParam(searchParams, 'speed', encoderSpeeds.map(s => s.value), defaultRateControl.speed),
+      },
+      audio: {
+        strip: searchParams.get('noaudio') === '1',
+        bitrateKbps: audioBitrates.find(b => b === readIntParam(searchParams, 'abr')) ?? null,
+        channels: readIntParam(searchParams, 'ach', 1, 2) || null,
+        sampleRate: audioSampleRates.find(r => r === readIntParam(searchParams, 'asr')) ?? null,
+        normalize: searchParams.has('loudnorm'),
+        loudnessTarget: Number(readEnumParam(searchParams, 'loudnorm', loudnessTargets.map(t => String(t.value)), String(defaultAudioSettings.loudnessTarget))),
+      },
+    };
+  });
+  const updateRate = (changes: Partial<VideoRateControl>) => setOutput(prev => ({ ...prev, rate: { ...prev.rate, ...changes } }));
+  const updateAudio = (changes: Partial<AudioSettings>) => setOutput(prev => ({ ...prev, audio: { ...prev.audio, ...changes } }));
+  // 出力の種類: 動画、またはGIF/WebPアニメーション
+  const [outputType, setOutputType] = useState<'video' | AnimationFormat>(
+    () => readEnumParam(searchParams, 'type', ['video', ...animationFormatNames], 'video'),
+  );
+  const [animation, setAnimation] = useState<AnimationOptions>(() => ({
+    dither: readEnumParam(searchParams, 'dither', paletteDithers.map(d => d.value), defaultAnimationOptions.dither),
+    plays: readNumberParam(searchParams, 'plays', defaultAnimationOptions.plays, 0, 1000),
+    quality: readNumberParam(searchParams, 'wq', defaultAnimationOptions.quality, 1, 100),
+  }));
+  const updateAnimation = (changes: Partial<AnimationOptions>) => setAnimation(prev => ({ ...prev, ...changes }));
+  // 音声を別ファイルとして書き出す形式 (null は書き出さない)
+  const [extractFormat, setExtractFormat] = useState<AudioExtractFormat | null>(() => {
+    const format = searchParams.get('extract');
+    return audioExtractFormatNames.find(f => f === format) ?? null;
+  });
+  // 音声だけを書き出し、動画の変換は行わない
+  const [audioOnly, setAudioOnly] = useState<boolean>(() => searchParams.has('audioonly'));
   const [results, setResults] = useState<ProcessingResult[]>([]); // ファイルごとの結果を管理
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [isZipping, setIsZipping] = useState<boolean>(false); // ZIP作成中フラグ
   const [error, setError] = useState<string | null>(null); // グローバルなエラー（ファイル選択、パラメータ等）
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [memoryQueue] = useState(() => createMemoryQueue(defaultMemoryBudget())); // メモリ見積もりに基づく処理キュー
+  const [fileNameTemplate, setFileNameTemplate] = useFileNameTemplate('video', DEFAULT_FILE_NAME_TEMPLATE); // 出力ファイル名テンプレート
+
+  // 設定をURLに反映 (共有・リロード用)
+  const containerInfo = videoContainers[output.container];
+  const outputExtension = outputType === 'video' ? output.container : outputType;
+  useSyncSearchParams({
+    w: width,
+    h: height,
+    fps,
+    format: output.container !== defaultVideoOutput.container && output.container,
+    vcodec: output.videoCodec !== containerInfo.videoCodecs[0] && output.videoCodec,
+    acodec: output.audioCodec !== containerInfo.audioCodecs[0] && output.audioCodec,
+    rc: output.rate.mode !== defaultRateControl.mode && output.rate.mode,
+    crf: output.rate.mode === 'crf' && output.rate.crf !== crfRanges[output.videoCodec].default && output.rate.crf,
+    kbps: output.rate.mode === 'bitrate' && output.rate.bitrateKbps,
+    mb: output.rate.mode === 'size' && output.rate.targetSizeMB,
+    speed: output.rate.speed !== defaultRateControl.speed && output.rate.speed,
+    noaudio: output.audio.strip,
+    abr: output.audio.bitrateKbps,
+    ach: output.audio.channels,
+    asr: output.audio.sampleRate,
+    loudnorm: output.audio.normalize && output.audio.loudnessTarget,
+    extract: extractFormat,
+    audioonly: extractFormat !== null && audioOnly,
+    type: outputType !== 'video' && outputType,
+    dither: outputType === 'gif' && animation.dither !== defaultAnimationOptions.dither && animation.dither,
+    plays: outputType !== 'video' && animation.plays !== defaultAnimationOptions.plays && animation.plays,
+    wq: outputType === 'webp' && animation.quality !== defaultAnimationOptions.quality && animation.quality,
+  });
     const progressEndRefs = useRef<(HTMLDivElement | null)[]>([]); // 各ログエリアの末尾参照用
   
     // resultsの最新の状態を保持するためのref
@@ -56,63 +231,36 @@ export function VideoPage() {
     // コンポーネントアンマウント時に全てのoutputUrlを解放する
     useEffect(() => {
       return () => {
-        latestResultsRef.current.forEach(r => {
-          if (r.outputUrl) {
-            URL.revokeObjectURL(r.outputUrl);
-          }
-        });
+        latestResultsRef.current.forEach(revokeResultUrls);
       };
     }, []); // 空の依存配列でアンマウント時のみ実行
 
   // ファイル選択ハンドラ
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (files) {
-      const newFiles: File[] = [];
-      const fileErrors: string[] = [];
-      let acceptedCount = 0;
-
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        if (acceptedCount >= MAX_FILES) {
-          fileErrors.push(`You can only select up to ${MAX_FILES} files. File "${file.name}" was ignored.`);
-          continue; // 最大数を超えたらスキップ
-        }
-
-        const fileExt = file.name.split('.').pop()?.toLowerCase();
-        if (fileExt && fileExtensions.video.includes(fileExt as VideoExtensions)) {
-          newFiles.push(file);
-          acceptedCount++;
-        } else {
-          fileErrors.push(`Unsupported file type: "${file.name}". Supported types: ${fileExtensions.video.join(', ')}`);
-        }
-      }
+  const handleFiles = (newFiles: File[], fileErrors: string[]) => {
+    setSelectedFiles(newFiles);
+    setResults([]); // ファイル選択が変わったら結果をリセット
+    setTrim(null);
+    setPreviewIndex(0);
+    setError(fileErrors.length > 0 ? fileErrors.join('\n') : null); // ファイル選択時のエラーを表示
 
-      setSelectedFiles(newFiles);
-      setResults([]); // ファイル選択が変わったら結果をリセット
-      setError(fileErrors.length > 0 ? fileErrors.join('\n') : null); // ファイル選択時のエラーを表示
-
-      // 新しいファイルごとにProcessingResultの初期状態を作成し、オリジナルサイズを取得
-      Promise.all(newFiles.map(async (file) => {
-        const { width: originalWidth, height: originalHeight } = await getVideoSize(file);
-        return {
-          file,
-          status: 'pending' as const,
-          progressLog: [] as string[],
-          progressPercent: 0,
-          originalWidth,
-          originalHeight,
-        };
-      })).then(initialResults => {
-        setResults(initialResults);
-        progressEndRefs.current = initialResults.map(() => null); // ref配列を初期化
-      });
-
-      // ファイル入力自体をリセットしないと、同じファイルを選択し直せない
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-    }
+    // 新しいファイルごとにProcessingResultの初期状態を作成し、オリジナルサイズを取得
+    // 大量のファイルでも一度に読み込まないよう、同時に調べる数を制限
+    mapWithConcurrency(newFiles, 2, async (file) => {
+      // ブラウザで再生できない形式でもffmpegでは処理できるのでサイズ不明のまま続行
+      const info = await getVideoInfo(file).catch(() => undefined);
+      return {
+        file,
+        status: 'pending' as const,
+        progressLog: [] as string[],
+        progressPercent: 0,
+        originalWidth: info?.width,
+        originalHeight: info?.height,
+        duration: info?.duration || undefined,
+      };
+    }).then(initialResults => {
+      setResults(initialResults);
+      progressEndRefs.current = initialResults.map(() => null); // ref配列を初期化
+    });
   };
 
 
@@ -142,10 +290,22 @@ export function VideoPage() {
     const targetWidth = width === '' ? null : Number(width);
     const targetHeight = height === '' ? null : Number(height);
     const targetFps = fps === '' ? null : Number(fps);
+    const activeTrim = trimEnabled ? trim : null;
+    const animationFormat = outputType === 'video' ? null : outputType;
+    // アニメーションには音声がない
+    const activeExtract = animationFormat ? null : extractFormat;
+    const skipVideo = activeExtract !== null && audioOnly;
 
-    // 幅、高さ、FPSのいずれも指定されていない場合はエラー
-    if (targetWidth === null && targetHeight === null && targetFps === null) {
-      setError('Please specify at least one parameter: width, height, or FPS.');
+    // 幅、高さ、FPS、切り出し範囲のいずれも指定されておらず、形式も変わらない場合はエラー (アニメーションは常に変換)
+    const formatChanges = !!animationFormat || !isDefaultRateControl(output) || !isDefaultAudio(output.audio)
+      || selectedFiles.some(file => !matchesVideoOutput(extensionOf(file), output));
+    if (targetWidth === null && targetHeight === null && targetFps === null && !activeTrim && !formatChanges && !activeExtract) {
+      setError('Please specify at least one parameter: width, height, FPS, a trim range, a different output format, or audio settings.');
+      return;
+    }
+    const rateValue = { crf: output.rate.crf, bitrate: output.rate.bitrateKbps, size: output.rate.targetSizeMB }[output.rate.mode];
+    if (!animationFormat && !skipVideo && (!Number.isFinite(rateValue) || (output.rate.mode !== 'crf' && rateValue <= 0))) {
+      setError('Please enter a positive bitrate or target size.');
       return;
     }
 
@@ -164,12 +324,17 @@ export function VideoPage() {
     setError(null); // グローバルエラーをクリア
 
     // 処理対象ファイルの初期状態を設定
-    const initialResults: ProcessingResult[] = selectedFiles.map(file => ({
+    const initialResults: ProcessingResult[] = selectedFiles.map((file, i) => ({
       file,
       status: 'pending',
+      originalWidth: results[i]?.originalWidth,
+      originalHeight: results[i]?.originalHeight,
+      duration: results[i]?.duration,
       progressLog: [],
       progressPercent: 0,
     }));
+    // 前回の出力を解放
+    results.forEach(revokeResultUrls);
     setResults(initialResults);
     progressEndRefs.current = initialResults.map(() => null); // ref配列を初期化
 
@@ -177,47 +342,117 @@ export function VideoPage() {
     // ここでは順次処理の例
     for (let i = 0; i < selectedFiles.length; i++) {
       const file = selectedFiles[i];
-      const fileExt = file.name.split('.').pop()?.toLowerCase() as VideoExtensions;
+      const fileExt = extensionOf(file);
 
-      // 結果オブジェクトを 'processing' に更新
-      setResults(prev => {
-        const newResults = [...prev];
-        newResults[i] = { ...newResults[i], status: 'processing', progressLog: ['Starting process...'] };
-        return newResults;
-      });
+      const estimate = estimateVideoMemory(file, initialResults[i].originalWidth, initialResults[i].originalHeight);
+
+      // 範囲はファイルごとの長さに合わせる (長さ不明ならそのままffmpegに渡す)
+      const duration = initialResults[i].duration;
+      const fileTrim = activeTrim && duration ? clampTrim(activeTrim, duration) : activeTrim;
+      if (activeTrim && !fileTrim) {
+        const errorMessage = `The trim range starts after the end of this video (${formatTimecode(duration ?? 0)}).`;
+        setResults(prev => {
+          const newResults = [...prev];
+          newResults[i] = { ...newResults[i], status: 'error', error: errorMessage, progressLog: [`Error: ${errorMessage}`] };
+          return newResults;
+        });
+        continue;
+      }
+      const jobTrim = fileTrim && !(duration && isFullRange(fileTrim, duration)) ? fileTrim : null;
 
       try {
-        // videoutils.ts の resizeVideo を呼び出し、進捗コールバックを渡す
-        const resultBlob = await resizeVideo(
-          file,
-          targetWidth,
-          targetHeight,
-          targetFps,
-          fileExt,
-          (message, percent) => updateProgress(i, message, percent) // 進捗メッセージとパーセントを受け取る
-        );
+        const { video: resultBlob, audio: audioBlob } = await memoryQueue.run(estimate, async () => {
+          // 結果オブジェクトを 'processing' に更新
+          setResults(prev => {
+            const newResults = [...prev];
+            newResults[i] = {
+              ...newResults[i],
+              status: 'processing',
+              progressLog: [`Estimated memory: ${formatMegabytes(estimate)}`, 'Starting process...'],
+            };
+            return newResults;
+          });
+          if (animationFormat) {
+            const video = await videoToAnimation(
+              file, targetWidth, targetHeight, targetFps, jobTrim, animationFormat, animation, fileExt,
+              message => updateProgress(i, message),
+            );
+            return { video, audio: null };
+          }
+          // videoutils.ts の resizeVideo を呼び出し、進捗コールバックを渡す (音声のみの場合は省略)
+          const video = skipVideo ? null : await resizeVideo(
+            file,
+            targetWidth,
+            targetHeight,
+            targetFps,
+            jobTrim,
+            output,
+            fileExt,
+            (message, percent) => updateProgress(i, message, percent) // 進捗メッセージとパーセントを受け取る
+          );
+          // 音声は動画の成否に関係なく書き出す (同じ切り出し範囲と音声設定を使う)
+          const audio = activeExtract
+            ? await extractAudio(file, jobTrim, activeExtract, output.audio, fileExt, message => updateProgress(i, message))
+            : null;
+          return { video, audio };
+        });
 
+        // 音声の結果は動画の成否とは別に残す
+        const audioResult: Partial<ProcessingResult> = {
+          audioFormat: activeExtract ?? undefined,
+          audioBlob: audioBlob ?? undefined,
+          audioUrl: audioBlob ? URL.createObjectURL(audioBlob) : undefined,
+          audioError: activeExtract && !audioBlob && !skipVideo
+            ? 'Audio extraction failed. The video may have no sound track; check the progress log for details.'
+            : undefined,
+        };
         if (resultBlob) {
           const url = URL.createObjectURL(resultBlob);
+          // 出力サイズを取得 ({w} {h} トークン用、失敗しても続行)
+          const outputSize = await (animationFormat ? getImageSize(resultBlob) : getVideoSize(resultBlob)).catch(() => undefined);
           setResults(prev => {
             const newResults = [...prev];
             newResults[i] = {
               ...newResults[i],
               status: 'success',
+              outputWidth: outputSize?.width,
+              outputHeight: outputSize?.height,
+              outputFps: targetFps ?? (animationFormat ? ANIMATION_DEFAULT_FPS : undefined),
+              trim: jobTrim ?? undefined,
+              outputFormat: animationFormat ? undefined : output,
+              animationFormat: animationFormat ?? undefined,
+              targetSize: !animationFormat && output.rate.mode === 'size' ? targetSizeBytes(output.rate) : undefined,
               outputBlob: resultBlob,
               outputUrl: url,
+              ...audioResult,
               progressLog: [...newResults[i].progressLog, 'Processing complete! Output video is ready.'],
               progressPercent: 100,
             };
             return newResults;
           });
+        } else if (skipVideo && audioBlob) {
+          setResults(prev => {
+            const newResults = [...prev];
+            newResults[i] = {
+              ...newResults[i],
+              status: 'success',
+              trim: jobTrim ?? undefined,
+              ...audioResult,
+              progressLog: [...newResults[i].progressLog, 'Processing complete! Output audio is ready.'],
+              progressPercent: 100,
+            };
+            return newResults;
+          });
         } else {
           // resizeVideoがnullを返した場合 (エラーはコールバックで通知されているはず)
           setResults(prev => {
             const newResults = [...prev];
-            const errorMessage = 'Video processing failed. Check progress log for details.';
+            const errorMessage = skipVideo
+              ? 'Audio extraction failed. The video may have no sound track; check the progress log for details.'
+              : 'Video processing failed. Check progress log for details.';
             newResults[i] = {
               ...newResults[i],
+              ...audioResult,
               status: 'error',
               error: errorMessage,
               progressLog: [...newResults[i].progressLog, `Error: ${errorMessage}`],
@@ -245,37 +480,148 @@ export function VideoPage() {
     setIsProcessing(false); // 全ての処理完了
   };
 
+  // 出力ファイル名 (個別ダウンロードとZIPで共通、音声は拡張子だけ変わる)
+  const outputFileName = (index: number, kind: 'video' | 'audio' = 'video') => {
+    const result = results[index];
+    const extension = kind === 'audio' && result.audioFormat
+      ? audioExtractFormats[result.audioFormat].extension
+      : result.animationFormat ?? result.outputFormat?.container ?? outputExtension;
+    return buildFileName(
+      fileNameTemplate,
+      {
+        name: baseNameOf(result.file.name),
+        w: result.outputWidth,
+        h: result.outputHeight,
+        fps: result.outputFps,
+        index: formatIndexToken(index, results.length),
+      },
+      extension,
+      kind === 'audio' ? result.audioBlob : result.outputBlob,
+      'video',
+    );
+  };
+
+  // プリセットの適用と、現在の設定の保存用の値
+  const applyPreset = (settings: VideoPresetSettings) => {
+    setWidth(settings.width ?? '');
+    setHeight(settings.height ?? '');
+    setFps(settings.fps ?? '');
+  };
+
+  const currentPresetSettings = sanitizeVideoPresetSettings({
+    width: width === '' ? null : width,
+    height: height === '' ? null : height,
+    fps: fps === '' ? null : fps,
+  });
+
+  // プレビュー用: 最初に完了した出力、なければ最初の選択ファイル
+  const sampleResult = results.find(r => r.status === 'success' && r.outputBlob);
+  const sampleFileNameValues = () => {
+    const file = sampleResult?.file ?? selectedFiles[0];
+    return {
+      name: file ? baseNameOf(file.name) : 'clip',
+      w: sampleResult ? sampleResult.outputWidth : width === '' ? undefined : width,
+      h: sampleResult ? sampleResult.outputHeight : height === '' ? undefined : height,
+      fps: sampleResult ? sampleResult.outputFps : fps === '' ? undefined : fps,
+      index: formatIndexToken(sampleResult ? results.indexOf(sampleResult) : 0, Math.max(results.length, selectedFiles.length)),
+    };
+  };
+
+  // アニメーションの出力サイズの見積もり (元動画のサイズと長さが分かる場合のみ)
+  const animationEstimate = (result: ProcessingResult) => {
+    if (outputType === 'video' || !result.originalWidth || !result.originalHeight || !result.duration) return null;
+    const w = width !== '' ? width
+      : height !== '' ? Math.round(result.originalWidth * height / result.originalHeight)
+      : result.originalWidth;
+    const h = height !== '' ? height : Math.round(result.originalHeight * w / result.originalWidth);
+    const range = trimEnabled && trim ? clampTrim(trim, result.duration) : { start: 0, end: result.duration };
+    if (!range) return null;
+    const frameRate = fps === '' ? ANIMATION_DEFAULT_FPS : fps;
+    const seconds = range.end - range.start;
+    return {
+      ...estimateAnimationSize(outputType, w, h, frameRate, seconds),
+      width: w,
+      height: h,
+      frames: Math.round(seconds * frameRate),
+    };
+  };
+
+  // ダウンロード済みの出力をメモリから解放 (動画と音声は別々に解放できる)
+  const releaseResults = (indices: number[], kinds: ('video' | 'audio')[] = ['video', 'audio']) => {
+    setResults(prev => prev.map((r, i) => {
+      if (!indices.includes(i)) return r;
+      let next = r;
+      if (kinds.includes('video') && r.outputBlob) {
+        if (r.outputUrl) URL.revokeObjectURL(r.outputUrl);
+        next = { ...next, outputBlob: undefined, outputUrl: undefined, released: true };
+      }
+      if (kinds.includes('audio') && r.audioBlob) {
+        if (r.audioUrl) URL.revokeObjectURL(r.audioUrl);
+        next = { ...next, audioBlob: undefined, audioUrl: undefined, audioReleased: true };
+      }
+      return next;
+    }));
+  };
+
   // ダウンロードハンドラ
-  const handleDownload = (url: string | undefined, blob: Blob | undefined, originalFileName: string) => {
-    if (url && blob) {
-      const link = document.createElement('a');
-      link.href = url;
-      const baseName = originalFileName.split('.').slice(0, -1).join('.') || 'video';
-      link.download = `${baseName}_resized.${defaultOutputExtension}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  const handleDownload = async (index: number) => {
+    const result = results[index];
+    if (result.outputUrl && result.outputBlob) {
+      downloadBlob(result.outputBlob, await outputFileName(index), result.outputUrl);
+      // ダウンロード開始を待ってから解放
+      setTimeout(() => releaseResults([index], ['video']), 1000);
+    }
+  };
+
+  const handleDownloadAudio = async (index: number) => {
+    const result = results[index];
+    if (result.audioUrl && result.audioBlob) {
+      downloadBlob(result.audioBlob, await outputFileName(index, 'audio'), result.audioUrl);
+      setTimeout(() => releaseResults([index], ['audio']), 1000);
+    }
+  };
+
+  // 成功した結果をまとめてZIPでダウンロード
+  const handleDownloadAll = async () => {
+    const indices = results
+      .map((r, i) => (r.status === 'success' && (r.outputBlob || r.audioBlob) ? i : -1))
+      .filter(i => i >= 0);
+    if (indices.length === 0) return;
+    setIsZipping(true);
+    setError(null);
+    try {
+      const entries = await Promise.all(indices.flatMap(i => [
+        ...(results[i].outputBlob ? [outputFileName(i).then(name => ({ name, blob: results[i].outputBlob! }))] : []),
+        ...(results[i].audioBlob ? [outputFileName(i, 'audio').then(name => ({ name, blob: results[i].audioBlob! }))] : []),
+      ]));
+      await downloadAsZip(entries, 'resized_videos.zip');
+      setTimeout(() => releaseResults(indices), 1000);
+    } catch (err) {
+      setError(`Failed to create ZIP archive: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsZipping(false);
     }
   };
 
   // クリアハンドラ
   const handleClear = () => {
     // 既存のoutputUrlを解放
-    results.forEach(r => {
-      if (r.outputUrl) {
-        URL.revokeObjectURL(r.outputUrl);
-      }
-    });
+    results.forEach(revokeResultUrls);
     setSelectedFiles([]);
     setWidth('');
     setHeight('');
     setFps('');
+    setTrimEnabled(false);
+    setTrim(null);
+    setPreviewIndex(0);
+    setOutput(defaultVideoOutput);
+    setExtractFormat(null);
+    setAudioOnly(false);
+    setOutputType('video');
+    setAnimation(defaultAnimationOptions);
     setResults([]);
     setIsProcessing(false);
     setError(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
   };
 
   // accept属性を動的に生成
@@ -286,24 +632,22 @@ export function VideoPage() {
       <CardHeader>
         <CardTitle>Resize Multiple Videos</CardTitle>
         <CardDescription>
-          Select up to {MAX_FILES} video files, specify desired dimensions (width/height) and/or FPS, then click "Resize Videos".
+          Select video files or whole folders, specify desired dimensions (width/height), FPS and/or a trim range, then click "Resize Videos".
+          Short clips can also be turned into animated GIF or WebP images.
         </CardDescription>
       </CardHeader>
 
       <CardContent className="grid gap-6">
         {/* ファイル選択 */}
-        <FormItem>
-          <Label htmlFor="videoFiles">Select Video Files (Max {MAX_FILES})</Label>
-          <Input
-            ref={fileInputRef}
-            type="file"
-            id="videoFiles"
-            accept={acceptTypes}
-            onChange={handleFileChange}
-            disabled={isProcessing}
-            multiple // 複数ファイル選択を許可
-            className="w-full"
-          />
+        <FileIntake
+          id="videoFiles"
+          label="Select Video Files"
+          extensions={fileExtensions.video}
+          accept={acceptTypes}
+          onFiles={handleFiles}
+          disabled={isProcessing}
+          multiple
+        >
           {selectedFiles.length > 0 && (
             <div className="mt-2 space-y-1">
               <p className="text-sm font-medium">Selected Files:</p>
@@ -320,7 +664,18 @@ export function VideoPage() {
               </ul>
             </div>
           )}
-        </FormItem>
+        </FileIntake>
+
+        {/* プリセット */}
+        <PresetPicker
+          tool="video"
+          builtIns={builtInVideoPresets}
+          sanitize={sanitizeVideoPresetSettings}
+          current={currentPresetSettings}
+          onApply={applyPreset}
+          onError={setError}
+          disabled={isProcessing}
+        />
 
         {/* サイズとFPSの入力フィールド */}
         <div className="space-y-2">
@@ -372,12 +727,14 @@ export function VideoPage() {
                 id="fps"
                 value={fps}
                 onChange={(e) => setFps(e.target.value === '' ? '' : parseInt(e.target.value, 10))}
-                placeholder="Original"
+                placeholder={outputType === 'video' ? 'Original' : String(ANIMATION_DEFAULT_FPS)}
                 min="1"
                 disabled={isProcessing}
                 className="w-full"
               />
-              <p className="text-xs text-muted-foreground mt-1">Leave blank for original</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {outputType === 'video' ? 'Leave blank for original' : `Leave blank for ${ANIMATION_DEFAULT_FPS} fps`}
+              </p>
             </FormItem>
           </div>
           <p className="text-xs text-yellow-600 dark:text-yellow-400">
@@ -385,6 +742,475 @@ export function VideoPage() {
           </p>
         </div>
 
+        {/* 出力の種類 */}
+        <FormItem className="max-w-xs">
+          <Label htmlFor="outputType">Output</Label>
+          <Select
+            value={outputType}
+            onValueChange={(value) => setOutputType(value as 'video' | AnimationFormat)}
+            disabled={isProcessing}
+          >
+            <SelectTrigger id="outputType" className="w-full">
+              <SelectValue placeholder="Select output" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="video">Video</SelectItem>
+              {animationFormatNames.map(format => (
+                <SelectItem key={format} value={format}>{animationFormats[format].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </FormItem>
+
+        {outputType === 'video' ? (
+          <>
+            {/* 出力形式 (コンテナに対応するコーデックのみ選択可能) */}
+            <div className="space-y-2">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <FormItem>
+                  <Label htmlFor="container">Container</Label>
+                  <Select
+                    value={output.container}
+                    onValueChange={(container) => setOutput(withContainer(output, container as VideoContainer))}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger id="container" className="w-full">
+                      <SelectValue placeholder="Select container" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {videoContainerNames.map(container => (
+                        <SelectItem key={container} value={container}>{videoContainers[container].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+                <FormItem>
+                  <Label htmlFor="videoCodec">Video Codec</Label>
+                  <Select
+                    value={output.videoCodec}
+                    onValueChange={(codec) => setOutput(withVideoCodec(output, codec as VideoCodec))}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger id="videoCodec" className="w-full">
+                      <SelectValue placeholder="Select codec" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {containerInfo.videoCodecs.map(codec => (
+                        <SelectItem key={codec} value={codec}>{videoCodecs[codec].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+                <FormItem>
+                  <Label htmlFor="audioCodec">Audio Codec</Label>
+                  <Select
+                    value={output.audioCodec}
+                    onValueChange={(codec) => setOutput({ ...output, audioCodec: codec as AudioCodec })}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger id="audioCodec" className="w-full">
+                      <SelectValue placeholder="Select codec" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {containerInfo.audioCodecs.map(codec => (
+                        <SelectItem key={codec} value={codec}>{audioCodecs[codec].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              </div>
+              {output.videoCodec !== 'h264' && (
+                <p className="text-xs text-yellow-600 dark:text-yellow-400">
+                  Note: {videoCodecs[output.videoCodec].label} encoding in the browser is much slower than H.264.
+                </p>
+              )}
+            </div>
+
+            {/* レート制御と速度 */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-start">
+              <FormItem>
+                <Label htmlFor="rateMode">Rate Control</Label>
+                <Select
+                  value={output.rate.mode}
+                  onValueChange={(mode) => updateRate({ mode: mode as RateControlMode })}
+                  disabled={isProcessing}
+                >
+                  <SelectTrigger id="rateMode" className="w-full">
+                    <SelectValue placeholder="Select rate control" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rateControlModes.map(m => (
+                      <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+
+              {output.rate.mode === 'crf' && (
+                <FormItem>
+                  <Label htmlFor="crf">CRF: {output.rate.crf}</Label>
+                  <Input
+                    type="range"
+                    id="crf"
+                    value={output.rate.crf}
+                    onChange={(e) => updateRate({ crf: parseInt(e.target.value, 10) })}
+                    min={crfRanges[output.videoCodec].min}
+                    max={crfRanges[output.videoCodec].max}
+                    disabled={isProcessing}
+                    className="w-full px-0"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Lower is better quality and larger (default {crfRanges[output.videoCodec].default})
+                  </p>
+                </FormItem>
+              )}
+              {output.rate.mode === 'bitrate' && (
+                <FormItem>
+                  <Label htmlFor="bitrate">Video Bitrate (kbit/s)</Label>
+                  <Input
+                    type="number"
+                    id="bitrate"
+                    value={Number.isNaN(output.rate.bitrateKbps) ? '' : output.rate.bitrateKbps}
+                    onChange={(e) => updateRate({ bitrateKbps: parseInt(e.target.value, 10) })}
+                    min="1"
+                    disabled={isProcessing}
+                    className="w-full"
+                  />
+                </FormItem>
+              )}
+              {output.rate.mode === 'size' && (
+                <FormItem>
+                  <Label htmlFor="targetSize">Maximum File Size (MB)</Label>
+                  <Input
+                    type="number"
+                    id="targetSize"
+                    value={Number.isNaN(output.rate.targetSizeMB) ? '' : output.rate.targetSizeMB}
+                    onChange={(e) => updateRate({ targetSizeMB: parseInt(e.target.value, 10) })}
+                    min="1"
+                    disabled={isProcessing}
+                    className="w-full"
+                  />
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {targetSizePresets.map(mb => (
+                      <Button
+                        key={mb}
+                        size="sm"
+                        variant={output.rate.targetSizeMB === mb ? 'default' : 'outline'}
+                        className="h-6 px-2 text-xs"
+                        onClick={() => updateRate({ targetSizeMB: mb })}
+                        disabled={isProcessing}
+                      >
+                        {mb} MB
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">Two-pass encode; the bitrate follows from the clip length</p>
+                </FormItem>
+              )}
+
+              <FormItem>
+                <Label htmlFor="speed">Encoder Speed</Label>
+                <Select
+                  value={output.rate.speed}
+                  onValueChange={(speed) => updateRate({ speed: speed as EncoderSpeed })}
+                  disabled={isProcessing}
+                >
+                  <SelectTrigger id="speed" className="w-full">
+                    <SelectValue placeholder="Select speed" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {encoderSpeeds.map(s => (
+                      <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            </div>
+
+            {/* 音声 (除去・再エンコード・ラウドネス正規化・別ファイルへの書き出し) */}
+            <div className="space-y-4 rounded-md border p-4">
+              <div className="flex flex-wrap gap-x-6 gap-y-2">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <input
+                    type="checkbox"
+                    checked={output.audio.strip}
+                    onChange={(e) => updateAudio({ strip: e.target.checked })}
+                    disabled={isProcessing}
+                  />
+                  Remove audio track
+                </label>
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <input
+                    type="checkbox"
+                    checked={extractFormat !== null}
+                    onChange={(e) => setExtractFormat(e.target.checked ? 'mp3' : null)}
+                    disabled={isProcessing}
+                  />
+                  Also save the audio as a separate file
+                </label>
+                {extractFormat !== null && (
+                  <label className="flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="checkbox"
+                      checked={audioOnly}
+                      onChange={(e) => setAudioOnly(e.target.checked)}
+                      disabled={isProcessing}
+                    />
+                    Audio only (skip the video)
+                  </label>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <FormItem>
+                  <Label htmlFor="audioBitrate">Audio Bitrate</Label>
+                  <Select
+                    value={output.audio.bitrateKbps === null ? 'original' : String(output.audio.bitrateKbps)}
+                    onValueChange={(value) => updateAudio({ bitrateKbps: value === 'original' ? null : Number(value) })}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger id="audioBitrate" className="w-full">
+                      <SelectValue placeholder="Select bitrate" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="original">Encoder default</SelectItem>
+                      {audioBitrates.map(kbps => (
+                        <SelectItem key={kbps} value={String(kbps)}>{kbps} kbit/s</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+                <FormItem>
+                  <Label htmlFor="audioChannels">Channels</Label>
+                  <Select
+                    value={output.audio.channels === null ? 'original' : String(output.audio.channels)}
+                    onValueChange={(value) => updateAudio({ channels: value === 'original' ? null : Number(value) })}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger id="audioChannels" className="w-full">
+                      <SelectValue placeholder="Select channels" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="original">Original</SelectItem>
+                      <SelectItem value="1">Mono</SelectItem>
+                      <SelectItem value="2">Stereo</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+                <FormItem>
+                  <Label htmlFor="audioSampleRate">Sample Rate</Label>
+                  <Select
+                    value={output.audio.sampleRate === null ? 'original' : String(output.audio.sampleRate)}
+                    onValueChange={(value) => updateAudio({ sampleRate: value === 'original' ? null : Number(value) })}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger id="audioSampleRate" className="w-full">
+                      <SelectValue placeholder="Select sample rate" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="original">Original</SelectItem>
+                      {audioSampleRates.map(rate => (
+                        <SelectItem key={rate} value={String(rate)}>{(rate / 1000).toFixed(rate % 1000 === 0 ? 0 : 2)} kHz</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+                <label className="flex items-center gap-2 text-sm font-medium pb-2">
+                  <input
+                    type="checkbox"
+                    checked={output.audio.normalize}
+                    onChange={(e) => updateAudio({ normalize: e.target.checked })}
+                    disabled={isProcessing}
+                  />
+                  Normalize loudness (EBU R128)
+                </label>
+                {output.audio.normalize && (
+                  <FormItem>
+                    <Label htmlFor="loudnessTarget">Target Loudness</Label>
+                    <Select
+                      value={String(output.audio.loudnessTarget)}
+                      onValueChange={(value) => updateAudio({ loudnessTarget: Number(value) })}
+                      disabled={isProcessing}
+                    >
+                      <SelectTrigger id="loudnessTarget" className="w-full">
+                        <SelectValue placeholder="Select target" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {loudnessTargets.map(t => (
+                          <SelectItem key={t.value} value={String(t.value)}>{t.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              </div>
+
+              {extractFormat !== null && (
+                <FormItem className="max-w-xs">
+                  <Label htmlFor="extractFormat">Audio File Format</Label>
+                  <Select
+                    value={extractFormat}
+                    onValueChange={(format) => setExtractFormat(format as AudioExtractFormat)}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger id="extractFormat" className="w-full">
+                      <SelectValue placeholder="Select format" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {audioExtractFormatNames.map(format => (
+                        <SelectItem key={format} value={format}>{audioExtractFormats[format].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+              <p className="text-xs text-muted-foreground">
+                The settings apply to the video's sound track and to the separate audio file.
+                {output.audio.strip && extractFormat === null && ' They have no effect while the audio track is removed.'}
+                {(output.audioCodec === 'opus' || extractFormat === 'opus') && ' Opus only supports 48, 24 and 16 kHz; other rates are encoded at 48 kHz.'}
+              </p>
+            </div>
+          </>
+        ) : (
+          // GIF/WebPアニメーションの設定 (幅・FPS・範囲は上下の共通設定を使う)
+          <div className="space-y-4 rounded-md border p-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {outputType === 'gif' ? (
+                <FormItem>
+                  <Label htmlFor="paletteDither">Dithering</Label>
+                  <Select
+                    value={animation.dither}
+                    onValueChange={(dither) => updateAnimation({ dither: dither as PaletteDither })}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger id="paletteDither" className="w-full">
+                      <SelectValue placeholder="Select dithering" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {paletteDithers.map(d => (
+                        <SelectItem key={d.value} value={d.value}>{d.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">A 256-color palette is generated from the clip first</p>
+                </FormItem>
+              ) : (
+                <FormItem>
+                  <Label htmlFor="webpQuality">Quality: {animation.quality}</Label>
+                  <Input
+                    type="range"
+                    id="webpQuality"
+                    value={animation.quality}
+                    onChange={(e) => updateAnimation({ quality: parseInt(e.target.value, 10) })}
+                    min={1}
+                    max={100}
+                    disabled={isProcessing}
+                    className="w-full px-0"
+                  />
+                </FormItem>
+              )}
+              <FormItem>
+                <Label htmlFor="plays">Play Count</Label>
+                <Input
+                  type="number"
+                  id="plays"
+                  value={animation.plays}
+                  onChange={(e) => updateAnimation({ plays: e.target.value === '' ? 0 : Math.max(0, parseInt(e.target.value, 10)) })}
+                  min="0"
+                  disabled={isProcessing}
+                  className="w-full"
+                />
+                <p className="text-xs text-muted-foreground mt-1">0 loops forever</p>
+              </FormItem>
+            </div>
+
+            {/* エンコード前のサイズ見積もり (内容によって大きく変わるので幅を持たせる) */}
+            {results.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Estimated size:</p>
+                <ul className="list-disc list-inside text-sm text-muted-foreground">
+                  {results.map((result, index) => {
+                    const estimate = animationEstimate(result);
+                    return (
+                      <li key={index}>
+                        {result.file.name}: {estimate
+                          ? `${formatMegabytes(estimate.min)} – ${formatMegabytes(estimate.max)} (${estimate.width}x${estimate.height}, ${estimate.frames} frames)`
+                          : 'unknown (the browser cannot read this video)'}
+                      </li>
+                    );
+                  })}
+                </ul>
+                <p className="text-xs text-muted-foreground">
+                  Screen recordings with little motion end up near the lower end, camera footage near the upper end.
+                  Reduce the width, FPS or range to make the file smaller.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* 切り出し範囲 */}
+        {selectedFiles.length > 0 && (
+          <div className="space-y-4 rounded-md border p-4">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={trimEnabled}
+                onChange={(e) => setTrimEnabled(e.target.checked)}
+                disabled={isProcessing}
+              />
+              Trim to a start and end time
+            </label>
+            {trimEnabled && (
+              <>
+                {selectedFiles.length > 1 && (
+                  <FormItem className="max-w-xs">
+                    <Label htmlFor="previewFile">Preview File</Label>
+                    <Select value={String(previewIndex)} onValueChange={(value) => setPreviewIndex(Number(value))}>
+                      <SelectTrigger id="previewFile" className="w-full">
+                        <SelectValue placeholder="Select file" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {selectedFiles.map((file, i) => (
+                          <SelectItem key={i} value={String(i)}>{file.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+                <VideoTrimmer
+                  video={selectedFiles[previewIndex] ?? selectedFiles[0]}
+                  value={trim}
+                  onChange={setTrim}
+                  disabled={isProcessing}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Drag the yellow handles or click the strip to scrub. The range is chosen on {(selectedFiles[previewIndex] ?? selectedFiles[0]).name} and
+                  applied to every file in the batch; it is shortened for clips that end earlier.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* 出力ファイル名 */}
+        <div className="max-w-xl">
+          <FileNameTemplate
+            id="fileNameTemplate"
+            template={fileNameTemplate}
+            defaultTemplate={DEFAULT_FILE_NAME_TEMPLATE}
+            onChange={setFileNameTemplate}
+            tokens={['name', 'w', 'h', 'fps', 'format', 'index', 'date', 'hash']}
+            sample={sampleFileNameValues()}
+            extension={outputExtension}
+            sampleBlob={sampleResult?.outputBlob}
+            disabled={isProcessing}
+          />
+        </div>
+
         {/* リサイズボタンとクリアボタン */}
         <div className="flex gap-2">
           <Button
@@ -392,7 +1218,7 @@ export function VideoPage() {
             disabled={isProcessing || selectedFiles.length === 0}
             className="flex-grow sm:flex-grow-0"
           >
-            {isProcessing ? 'Processing...' : `Resize ${selectedFiles.length > 0 ? selectedFiles.length : ''} Video(s)`}
+            {isProcessing ? 'Processing...' : `${outputType !== 'video' ? 'Convert' : extractFormat !== null && audioOnly ? 'Extract Audio from' : 'Resize'} ${selectedFiles.length > 0 ? selectedFiles.length : ''} Video(s)`}
           </Button>
           <Button
             onClick={handleClear}
@@ -418,7 +1244,19 @@ export function VideoPage() {
         {/* 結果表示エリア */}
         {results.length > 0 && (
           <div className="space-y-6">
-            <h3 className="text-xl font-semibold border-b pb-2">Processing Results:</h3>
+            <div className="flex items-center justify-between gap-4 border-b pb-2">
+              <h3 className="text-xl font-semibold">Processing Results:</h3>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDownloadAll}
+                disabled={isZipping || !results.some(r => r.status === 'success' && (r.outputBlob || r.audioBlob))}
+              >
+                <Archive className="h-4 w-4" />
+                {isZipping ? 'Creating ZIP...' : 'Download All as ZIP'}
+              </Button>
+            </div>
+            <BatchProgress items={results} />
             {results.map((result, index) => (
               <Card key={index} className="overflow-hidden"> {/* 各結果をカードで囲む */}
                 <CardHeader className="bg-muted/50 p-4">
@@ -430,6 +1268,11 @@ export function VideoPage() {
                   </CardTitle>
                   <CardDescription className="text-xs">
                     Original size: {(result.file.size / 1024 / 1024).toFixed(2)} MB
+                    {result.trim && <> &middot; Trimmed to {formatTimecode(result.trim.start)} – {formatTimecode(result.trim.end)}</>}
+                    {result.animationFormat && <> &middot; {animationFormats[result.animationFormat].label}</>}
+                    {result.outputFormat && (
+                      <> &middot; {videoContainers[result.outputFormat.container].label}, {videoCodecs[result.outputFormat.videoCodec].label} / {audioCodecs[result.outputFormat.audioCodec].label}</>
+                    )}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="p-4 grid gap-4">
@@ -460,26 +1303,70 @@ export function VideoPage() {
                     </Alert>
                   )}
 
+                  {result.status === 'success' && result.released && (
+                    <p className="text-sm text-muted-foreground">Downloaded. The output was released from memory.</p>
+                  )}
+
+                  {/* 音声の書き出し結果 */}
+                  {result.audioError && (
+                    <Alert variant="destructive">
+                      <XCircle className="h-4 w-4" />
+                      <AlertTitle>Audio Error</AlertTitle>
+                      <AlertDescription className="text-xs">{result.audioError}</AlertDescription>
+                    </Alert>
+                  )}
+                  {result.audioUrl && result.audioBlob && result.audioFormat && (
+                    <div className="space-y-2">
+                      <Label className="text-xs font-semibold">Audio ({audioExtractFormats[result.audioFormat].label}):</Label>
+                      <audio controls preload="metadata" src={result.audioUrl} className="w-full max-w-sm" />
+                      <div className="flex items-center gap-4 flex-wrap">
+                        <Button size="sm" variant="outline" onClick={() => handleDownloadAudio(index)}>
+                          Download Audio
+                        </Button>
+                        <span className="text-sm text-muted-foreground">
+                          {(result.audioBlob.size / 1024 / 1024).toFixed(2)} MB
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                  {result.audioReleased && (
+                    <p className="text-sm text-muted-foreground">Audio downloaded and released from memory.</p>
+                  )}
+
                   {/* 成功時の結果表示 */}
                   {result.status === 'success' && result.outputUrl && (
                     <div className="space-y-3">
                       <Label className="text-xs font-semibold">Result:</Label>
-                      <video
-                        controls
-                        src={result.outputUrl}
-                        className="w-full max-w-sm rounded-md border bg-muted mx-auto" // 中央寄せ、最大幅設定
-                        style={{ maxHeight: '300px' }}
-                      />
+                      {result.animationFormat ? (
+                        <img
+                          src={result.outputUrl}
+                          alt={`${result.file.name} as ${animationFormats[result.animationFormat].label}`}
+                          className="max-w-full max-h-[300px] rounded-md border bg-muted mx-auto"
+                        />
+                      ) : (
+                        <video
+                          controls
+                          preload="metadata"
+                          src={result.outputUrl}
+                          className="w-full max-w-sm rounded-md border bg-muted mx-auto" // 中央寄せ、最大幅設定
+                          style={{ maxHeight: '300px' }}
+                        />
+                      )}
                       <div className="flex items-center gap-4 flex-wrap">
                         <Button
                           size="sm"
-                          onClick={() => handleDownload(result.outputUrl, result.outputBlob, result.file.name)}
+                          onClick={() => handleDownload(index)}
                         >
-                          Download Resized Video
+                          {result.animationFormat ? `Download ${result.animationFormat.toUpperCase()}` : 'Download Resized Video'}
                         </Button>
                         {result.outputBlob && (
                           <span className="text-sm text-muted-foreground">
                             Output size: {(result.outputBlob.size / 1024 / 1024).toFixed(2)} MB
+                            {result.targetSize !== undefined && (
+                              <span className={result.outputBlob.size > result.targetSize ? 'ml-1 text-destructive' : 'ml-1 text-green-600'}>
+                                (target {(result.targetSize / 1024 / 1024).toFixed(0)} MB, {Math.round(result.outputBlob.size / result.targetSize * 100)}%)
+                              </span>
+                            )}
                           </span>
                         )}
                       </div>
@@ -5,6 +5,7 @@ export default [
 
   route("video", "routes/video.tsx"),
   route("image", "routes/image.tsx"),
+  route("responsive", "routes/responsive.tsx"),
   route("imageconvert", "routes/imageconvert.tsx"),
   route("base64image", "routes/base64image.tsx"),
 ] satisfies RouteConfig;
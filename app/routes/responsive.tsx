@@ -0,0 +1,13 @@
+import type { Route } from "./+types/responsive";
+import { ResponsiveImagePage } from "../pages/ResponsiveImagePage";
+
+export function meta({ }: Route.MetaArgs) {
+  return [
+    { title: "Responsive Images" },
+    { name: "description", content: "Generate a set of image widths and formats with a ready-to-use picture/srcset snippet." },
+  ];
+}
+
+export default function Responsive() {
+  return <ResponsiveImagePage />;
+}